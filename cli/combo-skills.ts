@@ -7,6 +7,12 @@
  *
  * Usage:
  *   combo-skills compile <combo-file> [options]
+ *   combo-skills validate <combo-file> [options]
+ *   combo-skills inspect <combo-file>
+ *   combo-skills fix <combo-file> [--dry-run]
+ *   combo-skills migrate <combo-file> [--dry-run]
+ *   combo-skills graph <combo-file> [--format dot|mermaid]
+ *   combo-skills schema [--output <file>]
  *
  * Examples:
  *   combo-skills compile examples/extract-table-from-web.combo.yaml
@@ -16,12 +22,37 @@
 
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import { loadComboSkill, compile, validateComboSkill } from '../src/index.js';
+import YAML from 'yaml';
+import {
+  loadComboSkill,
+  compile,
+  validateComboFile,
+  fixCombo,
+  migrateCombo,
+  bindParameters,
+  renderGraph,
+  GRAPH_FORMATS,
+  HYGIENE_CHECKS,
+  type DiagnosticCode,
+  type GraphFormat,
+  formatDiagnostic,
+  generateComboSkillSchema,
+  loadConfig,
+  CURRENT_SCHEMA_VERSION,
+  parseParameterAssignments,
+} from '../src/index.js';
 
 interface CLIOptions {
   output?: string;
   verbose?: boolean;
   validate?: boolean;
+  params?: string[];
+  dryRun?: boolean;
+  only?: string[];
+  format?: string;
+  diagram?: boolean;
+  hygiene?: string[];
+  config?: string;
 }
 
 /**
@@ -41,6 +72,21 @@ function parseArgs(args: string[]): { command: string; file?: string; options: C
       options.verbose = true;
     } else if (arg === '--validate') {
       options.validate = true;
+    } else if (arg === '--param' || arg === '-p') {
+      options.params = [...(options.params ?? []), args[++i]];
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--only') {
+      options.only = [...(options.only ?? []), ...args[++i].split(',')];
+    } else if (arg === '--format' || arg === '-f') {
+      options.format = args[++i];
+    } else if (arg === '--diagram') {
+      options.diagram = true;
+    } else if (arg === '--hygiene') {
+      const value = args[++i];
+      options.hygiene = value === 'none' ? [] : [...(options.hygiene ?? []), ...value.split(',')];
+    } else if (arg === '--config' || arg === '-c') {
+      options.config = args[++i];
     } else if (arg === '--help' || arg === '-h') {
       command = 'help';
     } else if (arg === '--version') {
@@ -68,9 +114,24 @@ USAGE
 COMMANDS
   compile <file>    Compile a combo skill definition into a skill artifact
   validate <file>   Validate a combo skill definition without compiling
+  inspect <file>    Print the fully merged definition (after 'extends')
+  fix <file>        Apply suggested fixes in place, keeping comments and formatting
+  migrate <file>    Upgrade a combo definition to the current schema version
+  graph <file>      Print the dependency graph as a Graphviz DOT or Mermaid diagram
+  schema            Print the combo skill JSON Schema, including custom modifiers
 
 OPTIONS
-  -o, --output <dir>   Output directory for compiled skill (default: ./output/<skill-name>)
+  -o, --output <dir>   Output directory for compiled skill (default: ./output/<skill-name>);
+                       with graph/schema: file to write to (default: stdout)
+  -p, --param <k=v>    Set a combo parameter (repeatable)
+  --dry-run            With fix/migrate: print a diff instead of writing the file
+  --only <codes>       With fix: only apply fixes for these codes (e.g. MOD004,GRF003)
+  -f, --format <fmt>   With graph: dot or mermaid (default: mermaid)
+  --diagram            With compile: embed a Mermaid dependency diagram in SKILL.md
+  --hygiene <codes>    With validate: graph hygiene checks to run (e.g. GRF003,GRF008),
+                       or 'none' (default: ${HYGIENE_CHECKS.join(',')})
+  -c, --config <file>  Config file registering custom modifiers
+                       (default: ./combo-skills.config.js or .mjs, if present)
   -v, --verbose        Enable verbose logging
   -h, --help           Show this help message
   --version            Show version number
@@ -78,7 +139,14 @@ OPTIONS
 EXAMPLES
   combo-skills compile examples/extract-table-from-web.combo.yaml
   combo-skills compile my-skill.combo.yaml --output ./dist
+  combo-skills compile my-skill.combo.yaml --param timeout=1m --param requests_per_minute=30
   combo-skills validate my-skill.combo.yaml
+  combo-skills validate my-skill.combo.yaml --hygiene GRF003,GRF007
+  combo-skills inspect variant.combo.yaml
+  combo-skills fix my-skill.combo.yaml --dry-run
+  combo-skills migrate my-skill.combo.yaml
+  combo-skills graph my-skill.combo.yaml --format dot | dot -Tsvg > graph.svg
+  combo-skills schema --config team.config.js -o combo-skill.schema.json
 `);
 }
 
@@ -100,7 +168,8 @@ async function printVersion(): Promise<void> {
  * Compiles a combo skill file.
  */
 async function runCompile(file: string, options: CLIOptions): Promise<void> {
-  const { output, verbose } = options;
+  const { output, verbose, diagram } = options;
+  const params = parseParameterAssignments(options.params ?? []);
 
   // Resolve file path
   const filePath = path.resolve(file);
@@ -134,25 +203,33 @@ async function runCompile(file: string, options: CLIOptions): Promise<void> {
   const result = await compile(combo, {
     outputDir,
     verbose,
+    params,
+    sourcePath: filePath,
+    diagram,
   });
 
+  for (const warning of result.warnings ?? []) {
+    console.warn(formatDiagnostic({ file, ...warning }));
+  }
+
   if (!result.success) {
-    console.error('Compilation failed:');
     for (const error of result.errors ?? []) {
-      console.error(`  - ${error}`);
+      console.error(formatDiagnostic({ file, ...error }));
     }
+    console.error('Compilation failed');
     process.exit(1);
   }
 
-  if (result.warnings && result.warnings.length > 0) {
-    console.warn('Warnings:');
-    for (const warning of result.warnings) {
-      console.warn(`  - ${warning}`);
-    }
+  const redactions = result.skill?.redactions ?? [];
+  if (redactions.length > 0) {
+    console.warn(
+      `Redacted ${redactions.length} credential-looking value(s) from the output: ${[...new Set(redactions)].join(', ')}`
+    );
   }
 
   console.log(`✓ Compiled successfully to: ${outputDir}`);
   console.log(`  - SKILL.md`);
+  console.log(`  - plan.json`);
   console.log(`  - metadata.json`);
   console.log(`  - examples/basic.md`);
 }
@@ -162,6 +239,7 @@ async function runCompile(file: string, options: CLIOptions): Promise<void> {
  */
 async function runValidate(file: string, options: CLIOptions): Promise<void> {
   const { verbose } = options;
+  const params = parseParameterAssignments(options.params ?? []);
 
   // Resolve file path
   const filePath = path.resolve(file);
@@ -178,15 +256,27 @@ async function runValidate(file: string, options: CLIOptions): Promise<void> {
     process.exit(1);
   }
 
-  // Load and validate
-  const combo = await loadComboSkill(filePath);
-  const result = validateComboSkill(combo);
+  const hygiene = options.hygiene as DiagnosticCode[] | undefined;
+  const unknown = hygiene?.filter((code) => !HYGIENE_CHECKS.includes(code)) ?? [];
+  if (unknown.length > 0) {
+    console.error(
+      `Error: Unknown hygiene check(s): ${unknown.join(', ')} (expected ${HYGIENE_CHECKS.join(', ')} or 'none')`
+    );
+    process.exit(1);
+  }
 
-  if (!result.valid) {
-    console.error('Validation failed:');
-    for (const error of result.errors) {
-      console.error(`  - ${error}`);
-    }
+  // Load and validate, keeping source positions for diagnostics
+  const { combo, errors, warnings } = await validateComboFile(file, { params, hygiene });
+
+  for (const warning of warnings) {
+    console.warn(formatDiagnostic(warning));
+  }
+  for (const error of errors) {
+    console.error(formatDiagnostic(error));
+  }
+
+  if (errors.length > 0 || !combo) {
+    console.error(`Validation failed with ${errors.length} error(s)`);
     process.exit(1);
   }
 
@@ -198,6 +288,182 @@ async function runValidate(file: string, options: CLIOptions): Promise<void> {
   }
 }
 
+/**
+ * Prints the fully merged definition of a combo skill file.
+ */
+async function runInspect(file: string): Promise<void> {
+  const filePath = path.resolve(file);
+
+  try {
+    await fs.access(filePath);
+  } catch {
+    console.error(`Error: File not found: ${filePath}`);
+    process.exit(1);
+  }
+
+  const combo = await loadComboSkill(filePath);
+  process.stdout.write(YAML.stringify(combo));
+}
+
+/**
+ * Applies suggested fixes to a combo skill file.
+ */
+async function runFix(file: string, options: CLIOptions): Promise<void> {
+  const { dryRun } = options;
+  const params = parseParameterAssignments(options.params ?? []);
+  const filePath = path.resolve(file);
+
+  try {
+    await fs.access(filePath);
+  } catch {
+    console.error(`Error: File not found: ${filePath}`);
+    process.exit(1);
+  }
+
+  const result = await fixCombo(file, { dryRun, params, codes: options.only });
+
+  // With --dry-run, stdout carries only the diff so it can be piped to patch
+  const log = dryRun ? console.error : console.log;
+  if (dryRun) {
+    process.stdout.write(result.diff);
+  }
+
+  for (const diagnostic of result.applied) {
+    const { line, column, code, fix } = diagnostic;
+    const location = line !== undefined ? `${file}:${line}:${column ?? 1}: ` : `${file}: `;
+    log(`${location}fixed ${code}: ${fix?.description}`);
+  }
+
+  for (const diagnostic of result.remaining) {
+    console.warn(formatDiagnostic(diagnostic));
+  }
+
+  if (!result.changed) {
+    log('No fixes to apply');
+  } else if (dryRun) {
+    log(`${result.applied.length} fix(es) available; run without --dry-run to apply`);
+  } else {
+    log(`✓ Applied ${result.applied.length} fix(es) to ${file}`);
+  }
+
+  if (result.remaining.some((d) => d.severity === 'error')) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Upgrades a combo skill file to the current schema version.
+ */
+async function runMigrate(file: string, options: CLIOptions): Promise<void> {
+  const { dryRun } = options;
+  const filePath = path.resolve(file);
+
+  try {
+    await fs.access(filePath);
+  } catch {
+    console.error(`Error: File not found: ${filePath}`);
+    process.exit(1);
+  }
+
+  const result = await migrateCombo(file, { dryRun });
+
+  if (result.fromVersion > CURRENT_SCHEMA_VERSION) {
+    console.error(
+      `Error: ${file} uses schema version ${result.fromVersion}, ` +
+        `newer than the supported version ${CURRENT_SCHEMA_VERSION}`
+    );
+    process.exit(1);
+  }
+
+  if (!result.changed) {
+    console.log(`${file} is already at schema version ${result.toVersion}`);
+    return;
+  }
+
+  // With --dry-run, stdout carries only the diff so it can be piped to patch
+  const log = dryRun ? console.error : console.log;
+  if (dryRun) {
+    process.stdout.write(result.diff);
+  }
+
+  log(`Schema version ${result.fromVersion} -> ${result.toVersion}`);
+  for (const change of result.changes) {
+    log(`  - ${change.description}`);
+  }
+  log(`  - Set schemaVersion to ${result.toVersion}`);
+
+  if (dryRun) {
+    log('Run without --dry-run to apply');
+  } else {
+    log(`✓ Migrated ${file} to schema version ${result.toVersion}`);
+  }
+}
+
+/**
+ * Prints the dependency graph of a combo skill file, once it validates.
+ */
+async function runGraph(file: string, options: CLIOptions): Promise<void> {
+  const format = (options.format ?? 'mermaid') as GraphFormat;
+  if (!GRAPH_FORMATS.includes(format)) {
+    console.error(`Error: Unknown format '${format}', expected one of: ${GRAPH_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const filePath = path.resolve(file);
+
+  try {
+    await fs.access(filePath);
+  } catch {
+    console.error(`Error: File not found: ${filePath}`);
+    process.exit(1);
+  }
+
+  // Only a valid combo has a graph to draw
+  const params = parseParameterAssignments(options.params ?? []);
+  const { combo: loaded, errors, warnings } = await validateComboFile(file, { params });
+
+  for (const warning of warnings) {
+    console.warn(formatDiagnostic(warning));
+  }
+  for (const error of errors) {
+    console.error(formatDiagnostic(error));
+  }
+
+  if (errors.length > 0 || !loaded) {
+    console.error(`Validation failed with ${errors.length} error(s)`);
+    process.exit(1);
+  }
+
+  // Bind parameters so modifiers show the values they compile with
+  let combo = loaded;
+  if (combo.parameters || options.params) {
+    combo = bindParameters(combo, params).combo;
+  }
+
+  const diagram = renderGraph(combo, format);
+
+  if (options.output) {
+    await fs.writeFile(options.output, diagram, 'utf-8');
+    console.log(`✓ Wrote ${format} diagram to ${options.output}`);
+  } else {
+    process.stdout.write(diagram);
+  }
+}
+
+/**
+ * Prints the combo skill JSON Schema with the registered custom modifiers.
+ */
+async function runSchema(options: CLIOptions): Promise<void> {
+  const schema = JSON.stringify(generateComboSkillSchema(), null, 2) + '\n';
+
+  if (options.output) {
+    await fs.writeFile(options.output, schema, 'utf-8');
+    console.log(`✓ Wrote schema to ${options.output}`);
+  } else {
+    process.stdout.write(schema);
+  }
+}
+
 /**
  * Main entry point.
  */
@@ -215,6 +481,12 @@ async function main(): Promise<void> {
     return;
   }
 
+  // Register custom modifiers before anything is parsed or validated
+  const { path: configPath } = await loadConfig(options.config);
+  if (options.verbose && configPath) {
+    console.log(`Loaded config from: ${configPath}`);
+  }
+
   if (command === 'compile') {
     if (!file) {
       console.error('Error: Missing combo skill file');
@@ -235,6 +507,51 @@ async function main(): Promise<void> {
     return;
   }
 
+  if (command === 'inspect') {
+    if (!file) {
+      console.error('Error: Missing combo skill file');
+      console.error('Usage: combo-skills inspect <file>');
+      process.exit(1);
+    }
+    await runInspect(file);
+    return;
+  }
+
+  if (command === 'fix') {
+    if (!file) {
+      console.error('Error: Missing combo skill file');
+      console.error('Usage: combo-skills fix <file> [--dry-run]');
+      process.exit(1);
+    }
+    await runFix(file, options);
+    return;
+  }
+
+  if (command === 'migrate') {
+    if (!file) {
+      console.error('Error: Missing combo skill file');
+      console.error('Usage: combo-skills migrate <file> [--dry-run]');
+      process.exit(1);
+    }
+    await runMigrate(file, options);
+    return;
+  }
+
+  if (command === 'graph') {
+    if (!file) {
+      console.error('Error: Missing combo skill file');
+      console.error('Usage: combo-skills graph <file> [--format dot|mermaid]');
+      process.exit(1);
+    }
+    await runGraph(file, options);
+    return;
+  }
+
+  if (command === 'schema') {
+    await runSchema(options);
+    return;
+  }
+
   console.error(`Unknown command: ${command}`);
   console.error('Run "combo-skills --help" for usage');
   process.exit(1);
@@ -0,0 +1,794 @@
+/**
+ * Composition blocks for combo skills.
+ *
+ * This module handles:
+ * - Parsing `composition:` steps into a typed AST
+ * - Checking skill references against the declared skills
+ * - Checking `${name}` references against the outputs in scope
+ * - Describing the control flow for prompts and SKILL.md
+ * - Listing the order in which the composition runs its skills, and the
+ *   outputs each skill step takes from earlier steps
+ *
+ * Scoping rules:
+ * - A step sees the outputs of the steps that ran before it in its
+ *   sequence or pipe, and everything its enclosing steps see
+ * - Outputs inside `parallel` branches are visible after the `parallel`,
+ *   but not to the other branches
+ * - Outputs inside a `conditional` are visible after it only when both
+ *   branches define them
+ * - Outputs inside `map` are per item and not visible after it; the map's
+ *   own `output` collects the results
+ * - `${input}` is the combo's input; `${params.*}` is bound before
+ *   validation and never checked here
+ *
+ * Design notes:
+ * - The schema checks the shape of each step; this module adds the rules
+ *   JSON Schema cannot express (one kind per step, scopes, references)
+ * - The composition's order adds edges to the dependency graph alongside
+ *   ordering constraints and data flow, so stages and plan steps follow
+ *   it. Its references and pipes become the plan's bindings
+ */
+
+import type {
+  ComboSkillDefinition,
+  CompositionStep,
+  Diagnostic,
+  DocumentPath,
+} from '../types.js';
+import { closestMatch, createDiagnostic, splitDiagnostics } from './diagnostics.js';
+
+/**
+ * Keys that select the kind of a composition step.
+ */
+const STEP_KINDS = ['skill', 'sequence', 'parallel', 'pipe', 'conditional', 'map'] as const;
+
+/**
+ * Matches a `${name}` or `${name.field}` reference, capturing the name and
+ * the field.
+ */
+const REFERENCE_REGEX = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?:\.([^}]*))?\}/g;
+
+/**
+ * Names that are always in scope.
+ */
+const BUILTIN_NAMES = ['input', 'params'];
+
+/**
+ * Kind of a composition step.
+ */
+export type CompositionKind = (typeof STEP_KINDS)[number];
+
+/**
+ * Fields shared by all composition nodes.
+ */
+interface CompositionNodeBase {
+  /**
+   * Name of the node's result, if any.
+   */
+  output?: string;
+
+  /**
+   * Document path of the step.
+   */
+  path: DocumentPath;
+}
+
+/**
+ * Runs one skill.
+ */
+export interface SkillCallNode extends CompositionNodeBase {
+  kind: 'skill';
+
+  /**
+   * Skill key (alias or name) as written in the step.
+   */
+  skill: string;
+
+  input?: string | Record<string, string>;
+  with?: Record<string, unknown>;
+}
+
+/**
+ * Runs steps in order.
+ */
+export interface SequenceNode extends CompositionNodeBase {
+  kind: 'sequence';
+  steps: CompositionNode[];
+}
+
+/**
+ * Runs branches concurrently.
+ */
+export interface ParallelNode extends CompositionNodeBase {
+  kind: 'parallel';
+  branches: CompositionNode[];
+}
+
+/**
+ * Runs stages in order, each taking the previous stage's output.
+ */
+export interface PipeNode extends CompositionNodeBase {
+  kind: 'pipe';
+  stages: CompositionNode[];
+}
+
+/**
+ * Runs one of two branches.
+ */
+export interface ConditionalNode extends CompositionNodeBase {
+  kind: 'conditional';
+  predicate: string;
+  then: CompositionNode;
+  else?: CompositionNode;
+}
+
+/**
+ * Runs a body once per item of a collection.
+ */
+export interface MapNode extends CompositionNodeBase {
+  kind: 'map';
+
+  /**
+   * The collection reference, e.g. `${pages}`.
+   */
+  over: string;
+
+  /**
+   * Name of the current item inside the body.
+   */
+  as: string;
+
+  body: CompositionNode;
+}
+
+/**
+ * A node of the composition AST.
+ */
+export type CompositionNode =
+  | SkillCallNode
+  | SequenceNode
+  | ParallelNode
+  | PipeNode
+  | ConditionalNode
+  | MapNode;
+
+/**
+ * Two skill steps the composition runs one right after the other.
+ */
+export interface CompositionOrder {
+  before: SkillCallNode;
+  after: SkillCallNode;
+}
+
+/**
+ * An output of one skill step that another skill step takes as input.
+ */
+export interface CompositionBinding {
+  from: SkillCallNode;
+  to: SkillCallNode;
+
+  /**
+   * Output field of the producer; the whole output when omitted.
+   */
+  output?: string;
+
+  /**
+   * Input field (or `with` argument) of the consumer; the whole input when
+   * omitted.
+   */
+  input?: string;
+}
+
+/**
+ * Skill steps producing a named output, and the field of their output it
+ * refers to.
+ */
+interface Producer {
+  skills: SkillCallNode[];
+  output?: string;
+}
+
+/**
+ * Result of parsing a composition block.
+ */
+export interface CompositionParseResult {
+  valid: boolean;
+
+  /**
+   * The composition as a sequence node; undefined if the combo has no
+   * `composition` or it could not be parsed.
+   */
+  ast?: SequenceNode;
+
+  errors: Diagnostic[];
+  warnings: Diagnostic[];
+}
+
+/**
+ * Parses and checks a combo's `composition` block.
+ *
+ * @param combo - The combo skill definition
+ * @returns The AST, with any diagnostics
+ */
+export function parseComposition(combo: ComboSkillDefinition): CompositionParseResult {
+  if (!combo.composition) {
+    return { valid: true, errors: [], warnings: [] };
+  }
+
+  const diagnostics: Diagnostic[] = [];
+  const steps = combo.composition.map((step, index) =>
+    parseStep(step, ['composition', index], diagnostics)
+  );
+
+  let ast: SequenceNode | undefined;
+  if (!steps.includes(undefined)) {
+    ast = { kind: 'sequence', steps: steps as CompositionNode[], path: ['composition'] };
+
+    const skillNames = new Set(
+      combo.skills.flatMap((s) => [s.name, s.alias].filter((n): n is string => Boolean(n)))
+    );
+    checkSkills(ast, skillNames, diagnostics);
+    checkScopes(ast, new Map(), diagnostics);
+  }
+
+  const { errors, warnings } = splitDiagnostics(diagnostics);
+
+  return {
+    valid: errors.length === 0,
+    ast: errors.length === 0 ? ast : undefined,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Lists the skills that `composition` steps name, without checking them.
+ *
+ * @param steps - Composition steps, e.g. `combo.composition`
+ * @returns Skill keys as written, in document order
+ */
+export function compositionSkills(steps: CompositionStep[] = []): string[] {
+  return steps.flatMap((step) => [
+    ...(typeof step.skill === 'string' ? [step.skill] : []),
+    ...compositionSkills(step.sequence),
+    ...compositionSkills(step.parallel),
+    ...compositionSkills(step.pipe),
+    ...compositionSkills(step.conditional?.then),
+    ...compositionSkills(step.conditional?.else),
+    ...compositionSkills(step.map?.do),
+  ]);
+}
+
+/**
+ * Lists the skill steps a composition runs one right after the other.
+ *
+ * In a sequence or pipe, the last skills of each step run before the first
+ * skills of the next. Parallel branches and the two branches of a
+ * conditional are not ordered against each other.
+ *
+ * @param node - Parsed composition
+ * @returns Pairs of skill steps, in document order
+ */
+export function compositionOrder(node: CompositionNode): CompositionOrder[] {
+  if (node.kind !== 'sequence' && node.kind !== 'pipe') {
+    return children(node).flatMap(compositionOrder);
+  }
+
+  const pairs: CompositionOrder[] = [];
+  let previous: SkillCallNode[] = [];
+  for (const step of children(node)) {
+    const first = endSkills(step, 'first');
+    for (const before of previous) {
+      pairs.push(...first.map((after) => ({ before, after })));
+    }
+    pairs.push(...compositionOrder(step));
+    // Steps without skills leave the order to the steps around them
+    const last = endSkills(step, 'last');
+    if (last.length > 0) {
+      previous = last;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Lists the outputs each skill step takes from earlier skill steps.
+ *
+ * A `${name}` reference binds the skills that produce `name`: the last
+ * skills of the step that names it. A pipe binds each stage's first skills
+ * to the previous stage's last skills. Inside a map, the item is bound to
+ * the producers of the collection.
+ *
+ * @param node - Parsed composition; references are assumed to be in scope
+ * @returns Bindings, in document order
+ */
+export function compositionBindings(node: CompositionNode): CompositionBinding[] {
+  const bindings: CompositionBinding[] = [];
+  collectBindings(node, new Map(), bindings);
+  return bindings;
+}
+
+/**
+ * Describes a composition as nested Markdown list items.
+ *
+ * @param node - Parsed composition
+ * @param names - Skill names by key (alias or name), for display
+ * @returns Markdown lines
+ */
+export function describeComposition(
+  node: CompositionNode,
+  names: Map<string, string> = new Map()
+): string[] {
+  const lines: string[] = [];
+  const emit = (text: string, depth: number) => lines.push(`${'  '.repeat(depth)}- ${text}`);
+  const yields = (n: CompositionNode) => (n.output ? ` → \`${n.output}\`` : '');
+
+  const describe = (n: CompositionNode, depth: number, inPipe = false): void => {
+    switch (n.kind) {
+      case 'skill': {
+        const input =
+          inPipe || n.input === undefined
+            ? ''
+            : typeof n.input === 'string'
+              ? ` with \`${n.input}\``
+              : ` with ${Object.entries(n.input)
+                  .map(([field, value]) => `${field} = \`${value}\``)
+                  .join(', ')}`;
+        const args = n.with
+          ? ` (${Object.entries(n.with)
+              .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+              .join(', ')})`
+          : '';
+        emit(`Run ${names.get(n.skill) ?? n.skill}${input}${args}${yields(n)}`, depth);
+        return;
+      }
+      case 'sequence':
+        if (depth < 0) {
+          n.steps.forEach((step) => describe(step, 0));
+          return;
+        }
+        emit(`In order${yields(n)}:`, depth);
+        n.steps.forEach((step) => describe(step, depth + 1));
+        return;
+      case 'parallel':
+        emit(`In parallel${yields(n)}:`, depth);
+        n.branches.forEach((branch) => describe(branch, depth + 1));
+        return;
+      case 'pipe':
+        emit(`Pipe each result into the next step${yields(n)}:`, depth);
+        n.stages.forEach((stage, i) => describe(stage, depth + 1, i > 0));
+        return;
+      case 'conditional':
+        emit(`If ${n.predicate}${yields(n)}:`, depth);
+        describeBranch(n.then, depth + 1);
+        if (n.else) {
+          emit('Otherwise:', depth);
+          describeBranch(n.else, depth + 1);
+        }
+        return;
+      case 'map':
+        emit(`For each \`${n.as}\` in \`${n.over}\`${yields(n)}:`, depth);
+        describeBranch(n.body, depth + 1);
+        return;
+    }
+  };
+
+  // Branch bodies are sequences; list their steps directly
+  const describeBranch = (n: CompositionNode, depth: number) => {
+    if (n.kind === 'sequence' && !n.output) {
+      n.steps.forEach((step) => describe(step, depth));
+    } else {
+      describe(n, depth);
+    }
+  };
+
+  describe(node, node.kind === 'sequence' && !node.output ? -1 : 0);
+  return lines;
+}
+
+/**
+ * Parses one step.
+ *
+ * @returns The node, or undefined if the step is malformed
+ */
+function parseStep(
+  step: CompositionStep,
+  path: DocumentPath,
+  diagnostics: Diagnostic[]
+): CompositionNode | undefined {
+  const kinds = STEP_KINDS.filter((kind) => step[kind] !== undefined);
+  if (kinds.length !== 1) {
+    diagnostics.push(
+      createDiagnostic(
+        'CMP004',
+        'error',
+        kinds.length === 0
+          ? `Composition step needs one of: ${STEP_KINDS.join(', ')}`
+          : `Composition step has more than one kind: ${kinds.join(', ')}`,
+        path
+      )
+    );
+    return undefined;
+  }
+
+  const kind = kinds[0];
+  if (kind !== 'skill') {
+    for (const field of ['input', 'with'] as const) {
+      if (step[field] !== undefined) {
+        diagnostics.push(
+          createDiagnostic(
+            'CMP004',
+            'error',
+            `'${field}' only applies to skill steps, not '${kind}'`,
+            [...path, field]
+          )
+        );
+      }
+    }
+  }
+
+  const parseList = (steps: CompositionStep[], listPath: DocumentPath) => {
+    const nodes = steps.map((s, i) => parseStep(s, [...listPath, i], diagnostics));
+    return nodes.includes(undefined) ? undefined : (nodes as CompositionNode[]);
+  };
+  const parseBody = (steps: CompositionStep[], bodyPath: DocumentPath) => {
+    const nodes = parseList(steps, bodyPath);
+    return nodes && ({ kind: 'sequence', steps: nodes, path: bodyPath } as SequenceNode);
+  };
+
+  const base = { output: step.output, path };
+  switch (kind) {
+    case 'skill':
+      return { ...base, kind, skill: step.skill!, input: step.input, with: step.with };
+    case 'sequence': {
+      const steps = parseList(step.sequence!, [...path, 'sequence']);
+      return steps && { ...base, kind, steps };
+    }
+    case 'parallel': {
+      const branches = parseList(step.parallel!, [...path, 'parallel']);
+      return branches && { ...base, kind, branches };
+    }
+    case 'pipe': {
+      const stages = parseList(step.pipe!, [...path, 'pipe']);
+      stages?.slice(1).forEach((stage) => {
+        if (stage.kind === 'skill' && stage.input !== undefined) {
+          diagnostics.push(
+            createDiagnostic(
+              'CMP004',
+              'error',
+              'Pipe stages after the first take the previous output as input; remove \'input\'',
+              [...stage.path, 'input']
+            )
+          );
+        }
+      });
+      return stages && { ...base, kind, stages };
+    }
+    case 'conditional': {
+      const { if: predicate, then, else: otherwise } = step.conditional!;
+      const thenNode = parseBody(then, [...path, 'conditional', 'then']);
+      const elseNode = otherwise && parseBody(otherwise, [...path, 'conditional', 'else']);
+      if (!thenNode || (otherwise && !elseNode)) return undefined;
+      return { ...base, kind, predicate, then: thenNode, else: elseNode };
+    }
+    case 'map': {
+      const { over, as = 'item', do: body } = step.map!;
+      const bodyNode = parseBody(body, [...path, 'map', 'do']);
+      return bodyNode && { ...base, kind, over, as, body: bodyNode };
+    }
+  }
+}
+
+/**
+ * Reports skill steps naming undeclared skills.
+ */
+function checkSkills(node: CompositionNode, skillNames: Set<string>, diagnostics: Diagnostic[]) {
+  for (const child of children(node)) {
+    checkSkills(child, skillNames, diagnostics);
+  }
+  if (node.kind !== 'skill' || skillNames.has(node.skill)) {
+    return;
+  }
+
+  const path = [...node.path, 'skill'];
+  const suggestion = closestMatch(node.skill, skillNames);
+  diagnostics.push(
+    createDiagnostic(
+      'CMP001',
+      'error',
+      suggestion
+        ? `Unknown skill in composition: ${node.skill} (did you mean '${suggestion}'?)`
+        : `Unknown skill in composition: ${node.skill}`,
+      path,
+      suggestion
+        ? {
+            fix: {
+              description: `Replace '${node.skill}' with '${suggestion}'`,
+              edits: [{ op: 'replace', path, value: suggestion }],
+            },
+          }
+        : {}
+    )
+  );
+}
+
+/**
+ * Checks references and output names of a node against the names in scope.
+ *
+ * @param scope - Names in scope, with the path that defines each
+ * @returns Names the node defines for the steps after it
+ */
+function checkScopes(
+  node: CompositionNode,
+  scope: Map<string, DocumentPath>,
+  diagnostics: Diagnostic[]
+): Map<string, DocumentPath> {
+  const defined = new Map<string, DocumentPath>();
+  const inner = (outer: Map<string, DocumentPath>) => new Map(outer);
+
+  switch (node.kind) {
+    case 'skill':
+      if (typeof node.input === 'string') {
+        checkReferences(node.input, [...node.path, 'input'], scope, diagnostics);
+      } else if (node.input) {
+        for (const [field, value] of Object.entries(node.input)) {
+          checkReferences(value, [...node.path, 'input', field], scope, diagnostics);
+        }
+      }
+      for (const [key, value] of Object.entries(node.with ?? {})) {
+        checkReferences(value, [...node.path, 'with', key], scope, diagnostics);
+      }
+      break;
+    case 'sequence':
+    case 'pipe': {
+      const current = inner(scope);
+      for (const step of node.kind === 'sequence' ? node.steps : node.stages) {
+        for (const [name, path] of checkScopes(step, current, diagnostics)) {
+          current.set(name, path);
+          defined.set(name, path);
+        }
+      }
+      break;
+    }
+    case 'parallel':
+      for (const branch of node.branches) {
+        for (const [name, path] of checkScopes(branch, inner(scope), diagnostics)) {
+          const other = defined.get(name);
+          if (other) {
+            reportDuplicate(name, path, other, diagnostics);
+          }
+          defined.set(name, path);
+        }
+      }
+      break;
+    case 'conditional': {
+      checkReferences(node.predicate, [...node.path, 'conditional', 'if'], scope, diagnostics);
+      const thenNames = checkScopes(node.then, inner(scope), diagnostics);
+      const elseNames = node.else ? checkScopes(node.else, inner(scope), diagnostics) : new Map();
+      for (const [name, path] of thenNames) {
+        if (elseNames.has(name)) {
+          defined.set(name, path);
+        }
+      }
+      break;
+    }
+    case 'map': {
+      checkReferences(node.over, [...node.path, 'map', 'over'], scope, diagnostics);
+      const body = inner(scope);
+      body.set(node.as, [...node.path, 'map']);
+      checkScopes(node.body, body, diagnostics);
+      break;
+    }
+  }
+
+  if (node.output) {
+    const path = [...node.path, 'output'];
+    const other = scope.get(node.output) ?? defined.get(node.output);
+    if (other) {
+      reportDuplicate(node.output, path, other, diagnostics);
+    }
+    defined.set(node.output, path);
+  }
+
+  return defined;
+}
+
+/**
+ * Collects the bindings of a node, following the same scopes as
+ * checkScopes.
+ *
+ * @param scope - Producers of the names in scope
+ * @returns Producers of the names the node defines for the steps after it
+ */
+function collectBindings(
+  node: CompositionNode,
+  scope: Map<string, Producer>,
+  bindings: CompositionBinding[]
+): Map<string, Producer> {
+  const defined = new Map<string, Producer>();
+
+  switch (node.kind) {
+    case 'skill': {
+      const bind = (value: unknown, input?: string) => {
+        for (const [name, field] of referencesIn(value)) {
+          const producer = scope.get(name);
+          for (const from of producer?.skills ?? []) {
+            const output = producer?.output ?? field;
+            bindings.push({
+              from,
+              to: node,
+              ...(output !== undefined ? { output } : {}),
+              ...(input !== undefined ? { input } : {}),
+            });
+          }
+        }
+      };
+      if (typeof node.input === 'string') {
+        bind(node.input);
+      } else {
+        Object.entries(node.input ?? {}).forEach(([field, value]) => bind(value, field));
+      }
+      Object.entries(node.with ?? {}).forEach(([key, value]) => bind(value, key));
+      break;
+    }
+    case 'sequence':
+    case 'pipe': {
+      const current = new Map(scope);
+      let previous: SkillCallNode[] = [];
+      for (const step of children(node)) {
+        if (node.kind === 'pipe') {
+          for (const to of endSkills(step, 'first')) {
+            bindings.push(...previous.map((from) => ({ from, to })));
+          }
+          previous = endSkills(step, 'last');
+        }
+        for (const [name, producer] of collectBindings(step, current, bindings)) {
+          current.set(name, producer);
+          defined.set(name, producer);
+        }
+      }
+      break;
+    }
+    case 'parallel':
+      for (const branch of node.branches) {
+        for (const [name, producer] of collectBindings(branch, new Map(scope), bindings)) {
+          defined.set(name, producer);
+        }
+      }
+      break;
+    case 'conditional': {
+      const thenNames = collectBindings(node.then, new Map(scope), bindings);
+      const elseNames = node.else
+        ? collectBindings(node.else, new Map(scope), bindings)
+        : new Map<string, Producer>();
+      for (const [name, producer] of thenNames) {
+        const other = elseNames.get(name);
+        if (other) {
+          defined.set(name, { skills: [...producer.skills, ...other.skills] });
+        }
+      }
+      break;
+    }
+    case 'map': {
+      const body = new Map(scope);
+      const [collection] = referencesIn(node.over);
+      const producer = collection && scope.get(collection[0]);
+      if (producer) {
+        body.set(node.as, { skills: producer.skills, output: producer.output ?? collection[1] });
+      }
+      collectBindings(node.body, body, bindings);
+      break;
+    }
+  }
+
+  if (node.output) {
+    defined.set(node.output, { skills: endSkills(node, 'last') });
+  }
+
+  return defined;
+}
+
+/**
+ * Lists the `${name}` references in a value as [name, field] pairs,
+ * leaving out built-in names.
+ */
+function referencesIn(value: unknown): Array<[string, string | undefined]> {
+  if (typeof value !== 'string') {
+    return value !== null && typeof value === 'object'
+      ? Object.values(value).flatMap(referencesIn)
+      : [];
+  }
+  return [...value.matchAll(REFERENCE_REGEX)]
+    .filter(([, name]) => !BUILTIN_NAMES.includes(name))
+    .map(([, name, field]) => [name, field]);
+}
+
+/**
+ * Reports `${name}` references in a value that are not in scope.
+ */
+function checkReferences(
+  value: unknown,
+  path: DocumentPath,
+  scope: Map<string, DocumentPath>,
+  diagnostics: Diagnostic[]
+): void {
+  if (typeof value !== 'string') {
+    if (value !== null && typeof value === 'object') {
+      for (const [key, item] of Object.entries(value)) {
+        checkReferences(item, [...path, Array.isArray(value) ? Number(key) : key], scope, diagnostics);
+      }
+    }
+    return;
+  }
+
+  for (const [, name] of value.matchAll(REFERENCE_REGEX)) {
+    if (scope.has(name) || BUILTIN_NAMES.includes(name)) {
+      continue;
+    }
+    const suggestion = closestMatch(name, scope.keys());
+    diagnostics.push(
+      createDiagnostic(
+        'CMP002',
+        'error',
+        suggestion
+          ? `Reference to undefined output '${name}' (did you mean '${suggestion}'?)`
+          : `Reference to undefined output '${name}'`,
+        path
+      )
+    );
+  }
+}
+
+/**
+ * Reports an output name defined twice in the same scope.
+ */
+function reportDuplicate(
+  name: string,
+  path: DocumentPath,
+  other: DocumentPath,
+  diagnostics: Diagnostic[]
+): void {
+  diagnostics.push(
+    createDiagnostic('CMP003', 'error', `Output '${name}' is already defined`, path, {
+      related: [{ message: `'${name}' is first defined here`, path: other }],
+    })
+  );
+}
+
+/**
+ * The skill steps a node runs first or last.
+ */
+function endSkills(node: CompositionNode, end: 'first' | 'last'): SkillCallNode[] {
+  if (node.kind === 'skill') {
+    return [node];
+  }
+  if (node.kind === 'sequence' || node.kind === 'pipe') {
+    const steps = end === 'first' ? children(node) : [...children(node)].reverse();
+    for (const step of steps) {
+      const skills = endSkills(step, end);
+      if (skills.length > 0) return skills;
+    }
+    return [];
+  }
+  return children(node).flatMap((child) => endSkills(child, end));
+}
+
+/**
+ * Direct children of a node.
+ */
+function children(node: CompositionNode): CompositionNode[] {
+  switch (node.kind) {
+    case 'skill':
+      return [];
+    case 'sequence':
+      return node.steps;
+    case 'parallel':
+      return node.branches;
+    case 'pipe':
+      return node.stages;
+    case 'conditional':
+      return node.else ? [node.then, node.else] : [node.then];
+    case 'map':
+      return [node.body];
+  }
+}
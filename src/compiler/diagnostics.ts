@@ -0,0 +1,239 @@
+/**
+ * Diagnostics for combo skills.
+ *
+ * This module handles:
+ * - The catalog of diagnostic codes
+ * - Creating diagnostics from validators
+ * - Formatting diagnostics for terminals, editors and CI
+ *
+ * Design notes:
+ * - Codes are stable: tools may group and suppress issues by code, so a
+ *   code is never reused for a different kind of issue
+ * - Validators only know the document path of an issue; file, line and
+ *   column are attached afterwards from the parsed source (see
+ *   loader/comboSource.ts)
+ * - Located diagnostics print as `file:line:col: severity CODE: message`,
+ *   the format understood by most editor and CI problem matchers
+ */
+
+import type {
+  Diagnostic,
+  DiagnosticFix,
+  DiagnosticSeverity,
+  DocumentPath,
+  RelatedLocation,
+} from '../types.js';
+
+/**
+ * Known diagnostic codes and their short names.
+ */
+export const DIAGNOSTIC_CODES = {
+  YAML001: 'yaml-syntax',
+  YAML002: 'not-a-mapping',
+  VER001: 'outdated-schema-version',
+  VER002: 'unsupported-schema-version',
+  INH001: 'inheritance-error',
+  PAR001: 'unbound-parameter',
+  PAR002: 'parameter-type-mismatch',
+  PAR003: 'undeclared-parameter',
+  PAR004: 'unknown-parameter-value',
+  TIR001: 'tier-violation',
+  TIR002: 'tier-overflow',
+  TIR003: 'tier-mismatch',
+  SCH001: 'missing-field',
+  SCH002: 'unknown-field',
+  SCH003: 'invalid-modifier',
+  SCH004: 'invalid-value',
+  GRF001: 'circular-dependency',
+  GRF002: 'unknown-skill-in-ordering',
+  GRF003: 'redundant-ordering',
+  GRF004: 'unknown-skill-in-data-flow',
+  GRF005: 'data-flow-contradicts-ordering',
+  GRF006: 'conflicting-input-mapping',
+  GRF007: 'isolated-skill',
+  GRF008: 'unused-alias',
+  GRF009: 'multiple-sinks',
+  GRF010: 'invalid-ordering-constraint',
+  CMP001: 'unknown-skill-in-composition',
+  CMP002: 'undefined-reference',
+  CMP003: 'duplicate-output',
+  CMP004: 'invalid-composition-step',
+  CMP005: 'ordering-contradicts-composition',
+  MOD001: 'incompatible-primitive',
+  MOD002: 'primitive-caveat',
+  MOD003: 'incompatible-modifiers',
+  MOD004: 'stacking-order',
+  MOD005: 'unparseable-modifier',
+  MOD006: 'modifier-style',
+  MOD007: 'timeout-exceeds-combo-timeout',
+  MOD008: 'retries-exceed-combo-timeout',
+  MOD009: 'cache-shorter-than-rate-limit',
+  MOD010: 'unknown-fallback-target',
+  MOD011: 'fallback-primitive-mismatch',
+  MOD012: 'fallback-loop',
+  PRM001: 'missing-primitive',
+  SEC001: 'invalid-secret-reference',
+  SEC002: 'bare-secret-name',
+  SEC003: 'literal-secret',
+  LAT001: 'latency-budget-exceeded',
+  RES001: 'unresolved-skill',
+  RES002: 'circular-combo-reference',
+  RES003: 'unresolved-fallback',
+  RES004: 'invalid-combo-reference',
+} as const;
+
+/**
+ * A known diagnostic code.
+ */
+export type DiagnosticCode = keyof typeof DIAGNOSTIC_CODES;
+
+/**
+ * Optional parts of a diagnostic.
+ */
+export interface DiagnosticDetails {
+  related?: RelatedLocation[];
+  fix?: DiagnosticFix;
+}
+
+/**
+ * Create a diagnostic.
+ */
+export function createDiagnostic(
+  code: DiagnosticCode,
+  severity: DiagnosticSeverity,
+  message: string,
+  path?: DocumentPath,
+  details: DiagnosticDetails = {}
+): Diagnostic {
+  const diagnostic: Diagnostic = { code, name: DIAGNOSTIC_CODES[code], severity, message };
+  if (path) diagnostic.path = path;
+  if (details.related && details.related.length > 0) diagnostic.related = details.related;
+  if (details.fix) diagnostic.fix = details.fix;
+  return diagnostic;
+}
+
+/**
+ * Split diagnostics into errors and warnings.
+ */
+export function splitDiagnostics(
+  diagnostics: Diagnostic[]
+): { errors: Diagnostic[]; warnings: Diagnostic[] } {
+  return {
+    errors: diagnostics.filter((d) => d.severity === 'error'),
+    warnings: diagnostics.filter((d) => d.severity === 'warning'),
+  };
+}
+
+/**
+ * Format a document path as a JSON path expression, e.g. `skills[2].modifiers[0]`.
+ */
+export function formatPath(path: DocumentPath): string {
+  let result = '';
+  for (const segment of path) {
+    if (typeof segment === 'number') {
+      result += `[${segment}]`;
+    } else if (/^[A-Za-z_$][\w$-]*$/.test(segment)) {
+      result += result ? `.${segment}` : segment;
+    } else {
+      result += `[${JSON.stringify(segment)}]`;
+    }
+  }
+  return result;
+}
+
+/**
+ * Format a diagnostic's message prefixed with its document path.
+ *
+ * This is the location-independent form, used where no source is available.
+ */
+export function describeDiagnostic(diagnostic: Diagnostic): string {
+  return diagnostic.path && diagnostic.path.length > 0
+    ? `${formatPath(diagnostic.path)}: ${diagnostic.message}`
+    : diagnostic.message;
+}
+
+/**
+ * Format a diagnostic in compiler style.
+ *
+ * Located diagnostics print as `file:line:col: error CODE: message`.
+ * Unlocated ones fall back to the file (if any) and document path.
+ * Related locations follow as `note:` lines.
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const { severity, code } = diagnostic;
+  const lines = [
+    `${formatLocation(diagnostic)}${severity} ${code}: ${formatMessage(diagnostic)}`,
+  ];
+
+  for (const related of diagnostic.related ?? []) {
+    lines.push(`${formatLocation(related)}note: ${formatMessage(related)}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Location prefix for a formatted line, e.g. `file:3:5: `.
+ */
+function formatLocation(location: Diagnostic | RelatedLocation): string {
+  const { file, line, column } = location;
+  if (file && line !== undefined) {
+    return `${file}:${line}:${column ?? 1}: `;
+  }
+  return file ? `${file}: ` : '';
+}
+
+/**
+ * Message for a formatted line, prefixed with the path when unlocated.
+ */
+function formatMessage(location: Diagnostic | RelatedLocation): string {
+  if (location.line === undefined && location.path && location.path.length > 0) {
+    return `${formatPath(location.path)}: ${location.message}`;
+  }
+  return location.message;
+}
+
+/**
+ * Finds the candidate closest to a misspelled name, for "did you mean" hints.
+ *
+ * @param name - The unknown name
+ * @param candidates - Known names
+ * @returns The closest candidate within a small edit distance, if any
+ */
+export function closestMatch(name: string, candidates: Iterable<string>): string | undefined {
+  const threshold = Math.max(1, Math.floor(name.length / 3));
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(name, candidate);
+    if (distance <= threshold && distance < name.length && distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Edit distance between two strings, counting insertions, deletions,
+ * substitutions and transpositions of adjacent characters.
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
@@ -0,0 +1,154 @@
+/**
+ * Durations in modifier configurations.
+ *
+ * This module handles:
+ * - Parsing durations such as `30s`, `5m` or `500ms` into milliseconds
+ * - Checking the duration fields of modifier configs
+ * - Formatting milliseconds for messages
+ *
+ * Design notes:
+ * - Modifier configs keep durations as written, so prefix forms and
+ *   plan.json round-trip unchanged; consumers parse them with
+ *   getDuration when they need milliseconds
+ * - Each modifier definition lists its duration fields and the units they
+ *   accept; for built-in modifiers these match
+ *   schemas/combo-skill.schema.json (e.g. a timeout in days or a cache TTL
+ *   in milliseconds is rejected)
+ */
+
+import type {
+  Duration,
+  DurationUnit,
+  ModifierConfigIssue,
+  ModifierType,
+  ParsedModifier,
+} from '../types.js';
+import { BUILTIN_MODIFIERS, getModifierDefinition } from './modifierRegistry.js';
+
+/**
+ * Duration units and their length in milliseconds.
+ */
+export const DURATION_UNITS: Record<DurationUnit, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Duration fields of each built-in modifier type, with the units they
+ * accept.
+ *
+ * @deprecated Read `durations` from getModifierDefinition(), which includes
+ *   registered modifiers.
+ */
+export const DURATION_FIELDS: Partial<Record<ModifierType, Record<string, DurationUnit[]>>> =
+  Object.fromEntries(
+    BUILTIN_MODIFIERS.filter((d) => d.durations).map((d) => [d.type, d.durations!])
+  );
+
+/**
+ * Matches a duration, capturing the amount and the unit.
+ */
+const DURATION_REGEX = /^(\d+)([a-z]+)$/;
+
+/**
+ * Parses a duration into milliseconds.
+ *
+ * @param value - Duration such as `30s`
+ * @param units - Accepted units; default all of DURATION_UNITS
+ * @returns Milliseconds
+ * @throws Error if the value is not a duration in one of the units
+ */
+export function parseDuration(
+  value: unknown,
+  units: DurationUnit[] = Object.keys(DURATION_UNITS) as DurationUnit[]
+): number {
+  const match = typeof value === 'string' ? value.match(DURATION_REGEX) : null;
+  if (!match) {
+    throw new Error(
+      `Invalid duration ${JSON.stringify(value)}: expected a whole number followed by a unit (${units.join(', ')})`
+    );
+  }
+  const unit = match[2] as DurationUnit;
+  if (!units.includes(unit)) {
+    throw new Error(`Invalid duration unit '${match[2]}' in '${value}': expected one of ${units.join(', ')}`);
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[unit];
+}
+
+/**
+ * Checks whether a value is a duration in one of the given units.
+ *
+ * @param value - Value to check
+ * @param units - Accepted units; default all of DURATION_UNITS
+ */
+export function isDuration(value: unknown, units?: DurationUnit[]): value is Duration {
+  try {
+    parseDuration(value, units);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks the duration fields of a modifier's config.
+ *
+ * @param type - Modifier type
+ * @param config - Modifier config
+ * @returns One issue per invalid duration
+ */
+export function checkDurations(
+  type: ModifierType,
+  config: Record<string, unknown>
+): ModifierConfigIssue[] {
+  const issues: ModifierConfigIssue[] = [];
+  for (const [field, units] of Object.entries(getModifierDefinition(type)?.durations ?? {})) {
+    if (config[field] === undefined) continue;
+    try {
+      parseDuration(config[field], units);
+    } catch (e) {
+      issues.push({ path: [field], message: (e as Error).message });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Reads a duration field of a parsed modifier in milliseconds.
+ *
+ * @param modifier - A modifier from parseModifier, whose durations are valid
+ * @param field - Config field, e.g. `duration` or `ttl`
+ * @returns Milliseconds, or undefined if the field is not set
+ */
+export function getDuration(
+  modifier: Pick<ParsedModifier, 'config'>,
+  field: string
+): number | undefined {
+  const value = modifier.config[field];
+  return value === undefined ? undefined : parseDuration(value);
+}
+
+/**
+ * Formats a duration for messages, e.g. `1m 30s` or `500ms`.
+ *
+ * @param ms - Duration in milliseconds
+ * @returns The formatted duration
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${ms}ms`;
+  }
+
+  const parts: string[] = [];
+  let rest = Math.round(ms / 1000);
+  for (const [unit, seconds] of [['d', 86400], ['h', 3600], ['m', 60], ['s', 1]] as const) {
+    if (rest >= seconds) {
+      parts.push(`${Math.floor(rest / seconds)}${unit}`);
+      rest %= seconds;
+    }
+  }
+  return parts.join(' ');
+}
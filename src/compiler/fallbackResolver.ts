@@ -0,0 +1,361 @@
+/**
+ * Fallback targets of combo skills.
+ *
+ * This module handles:
+ * - Collecting the `fallback` modifiers that name a skill, for the combo
+ *   and for each of its skills
+ * - Resolving fallback targets that are not skills of the combo through
+ *   the skills resolver
+ * - Checking each target's primitives against the skill it replaces
+ * - Detecting fallbacks that lead back to the skill they replace
+ *
+ * Design notes:
+ * - A target that matches a skill key (alias, or name of a skill without
+ *   one) of the combo is that skill, and so is the name of an aliased skill
+ *   (see skillKeys); links record the key. Any other target is a skill name
+ *   resolved from the default registry, like a skill reference with only a
+ *   `name`
+ * - A fallback runs in place of the skill it replaces, so it should not
+ *   need primitives that skill does not declare. The combo's own fallback
+ *   is checked against the combo's primitives
+ * - Loops can only pass through skills of the combo, since other targets
+ *   have no modifiers of their own
+ * - Fallbacks with only a static `value` have no target and are ignored
+ */
+
+import type {
+  ComboSkillDefinition,
+  Diagnostic,
+  EffectiveModifier,
+  FallbackLink,
+  ResolvedFallback,
+  ResolvedSkill,
+  SkillPrimitive,
+} from '../types.js';
+import { closestMatch, createDiagnostic, splitDiagnostics } from './diagnostics.js';
+import { skillKeys } from './graphResolver.js';
+import { comboWideModifiers, effectiveModifiers } from './modifierValidator.js';
+import { resolveSkills, type ResolverOptions } from '../registry/skillsResolver.js';
+
+/**
+ * Result of checking fallbacks.
+ */
+export interface FallbackValidationResult {
+  valid: boolean;
+  errors: Diagnostic[];
+  warnings: Diagnostic[];
+}
+
+/**
+ * A fallback link with the modifier that declares it.
+ */
+interface FallbackModifierLink extends FallbackLink {
+  modifier: EffectiveModifier;
+}
+
+/**
+ * Lists the fallbacks that name a skill: each skill's own, in declaration
+ * order, then the combo's.
+ *
+ * @param combo - The combo skill definition
+ * @returns The fallback links
+ */
+export function collectFallbacks(combo: ComboSkillDefinition): FallbackLink[] {
+  return fallbackModifierLinks(combo).map(({ modifier: _modifier, ...link }) => link);
+}
+
+/**
+ * Collects fallback links together with their modifiers.
+ */
+function fallbackModifierLinks(combo: ComboSkillDefinition): FallbackModifierLink[] {
+  const keys = skillKeys(combo);
+  const links: FallbackModifierLink[] = [];
+
+  const add = (skill: string | undefined, modifiers: EffectiveModifier[]) => {
+    for (const modifier of modifiers) {
+      const target = modifier.config.skill;
+      if (modifier.type !== 'fallback' || typeof target !== 'string' || target === '') {
+        continue;
+      }
+      const key = keys.get(target);
+      links.push({
+        skill,
+        target: key ?? target,
+        declared: key !== undefined,
+        path: modifier.path,
+        modifier,
+      });
+    }
+  };
+
+  // Fallbacks apply to the combo as a whole, so skills only have their own
+  combo.skills.forEach((skill, index) => {
+    add(skill.alias ?? skill.name, effectiveModifiers(combo, index));
+  });
+  add(undefined, comboWideModifiers(combo));
+
+  return links;
+}
+
+/**
+ * Checks the fallbacks of a combo that can be checked without resolving
+ * skills:
+ * - MOD010: a target that is not a skill of the combo but is close to one
+ *   (likely a typo)
+ * - MOD011: a target that is a skill of the combo and declares primitives
+ *   the skill it replaces does not
+ * - MOD012: fallbacks that lead back to the skill they replace
+ *
+ * @param combo - The combo skill definition
+ * @returns Validation result
+ */
+export function validateFallbacks(combo: ComboSkillDefinition): FallbackValidationResult {
+  const diagnostics: Diagnostic[] = [];
+  const links = fallbackModifierLinks(combo);
+  const refs = new Map(combo.skills.map((s) => [s.alias ?? s.name, s]));
+
+  for (const link of links) {
+    if (!link.declared) {
+      const suggestion = closestMatch(link.target, refs.keys());
+      if (suggestion) {
+        diagnostics.push(
+          createDiagnostic(
+            'MOD010',
+            'warning',
+            `Fallback '${link.target}' of ${describeReplaced(link)} is not a skill of this combo ` +
+              `and will be resolved from the registry (did you mean '${suggestion}'?)`,
+            link.path,
+            {
+              fix: {
+                description: `Fall back to '${suggestion}'`,
+                edits: [{ op: 'replace', path: link.path, value: retarget(link.modifier, suggestion) }],
+              },
+            }
+          )
+        );
+      }
+      continue;
+    }
+
+    const mismatch = primitiveMismatch(combo, link, refs.get(link.target)?.primitives);
+    if (mismatch) {
+      diagnostics.push(mismatch);
+    }
+  }
+
+  diagnostics.push(...loopDiagnostics(links));
+
+  const { errors, warnings } = splitDiagnostics(diagnostics);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Resolves the target of each fallback that names a skill.
+ *
+ * Targets that are skills of the combo take their resolution from
+ * `resolvedSkills`; other targets are resolved through the skills resolver.
+ *
+ * @param combo - The combo skill definition
+ * @param resolvedSkills - The combo's resolved skills, in declaration order
+ * @param options - Resolver options
+ * @returns The fallbacks, in the order of collectFallbacks
+ */
+export async function resolveFallbacks(
+  combo: ComboSkillDefinition,
+  resolvedSkills: ResolvedSkill[],
+  options: ResolverOptions = {}
+): Promise<ResolvedFallback[]> {
+  const links = collectFallbacks(combo);
+  const indices = new Map(combo.skills.map((s, index) => [s.alias ?? s.name, index]));
+
+  const external = [...new Set(links.filter((l) => !l.declared).map((l) => l.target))];
+  const resolved = await resolveSkills(
+    external.map((name) => ({ name })),
+    options
+  );
+  const byName = new Map(external.map((name, index) => [name, resolved[index]]));
+
+  return links.map((link) => ({
+    ...link,
+    resolved: link.declared
+      ? resolvedSkills[indices.get(link.target)!]
+      : byName.get(link.target)!,
+  }));
+}
+
+/**
+ * Checks fallbacks whose targets were resolved from a registry:
+ * - RES003: the target could not be resolved
+ * - MOD011: the target's primitives, when the registry reports them,
+ *   include primitives the skill it replaces does not declare
+ *
+ * @param combo - The combo skill definition
+ * @param fallbacks - Fallbacks from resolveFallbacks
+ * @returns Validation result; findings are warnings
+ */
+export function checkResolvedFallbacks(
+  combo: ComboSkillDefinition,
+  fallbacks: ResolvedFallback[]
+): FallbackValidationResult {
+  const diagnostics: Diagnostic[] = [];
+
+  for (const fallback of fallbacks) {
+    if (fallback.declared) {
+      continue;
+    }
+    if (!fallback.resolved.resolved) {
+      diagnostics.push(
+        createDiagnostic(
+          'RES003',
+          'warning',
+          `Fallback of ${describeReplaced(fallback)} could not be resolved: ${fallback.target}`,
+          fallback.path
+        )
+      );
+      continue;
+    }
+    const mismatch = primitiveMismatch(combo, fallback, fallback.resolved.primitives);
+    if (mismatch) {
+      diagnostics.push(mismatch);
+    }
+  }
+
+  const { errors, warnings } = splitDiagnostics(diagnostics);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Reports target primitives that the replaced skill (or the combo) does
+ * not declare. Nothing is reported when either side declares none.
+ */
+function primitiveMismatch(
+  combo: ComboSkillDefinition,
+  link: FallbackLink,
+  targetPrimitives: SkillPrimitive[] | undefined
+): Diagnostic | undefined {
+  const index = combo.skills.findIndex((s) => (s.alias ?? s.name) === link.skill);
+  const replaced = link.skill === undefined ? combo.primitives : combo.skills[index]?.primitives;
+  if (!replaced || !targetPrimitives) {
+    return undefined;
+  }
+
+  const extra = targetPrimitives.filter((p) => !replaced.includes(p));
+  if (extra.length === 0) {
+    return undefined;
+  }
+
+  const primitivesPath = link.skill === undefined ? ['primitives'] : ['skills', index, 'primitives'];
+  return createDiagnostic(
+    'MOD011',
+    'warning',
+    `Fallback '${link.target}' of ${describeReplaced(link)} uses ${extra.map((p) => `'${p}'`).join(', ')}, ` +
+      `which ${link.skill === undefined ? 'the combo does' : `'${link.skill}' does`} not declare`,
+    link.path,
+    {
+      related: [
+        {
+          message: `Primitives of ${link.skill === undefined ? 'the combo' : `'${link.skill}'`} are declared here`,
+          path: primitivesPath,
+        },
+      ],
+    }
+  );
+}
+
+/**
+ * Reports each loop of fallbacks between skills once, at its first
+ * fallback in declaration order.
+ */
+function loopDiagnostics(links: FallbackModifierLink[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const between = links.filter((l) => l.skill !== undefined && l.declared);
+  const reported = new Set<string>();
+
+  for (const link of between) {
+    const loop = findLoop(link, between);
+    if (!loop) {
+      continue;
+    }
+    const id = loop.map((l) => JSON.stringify(l.path)).sort().join('|');
+    if (reported.has(id)) {
+      continue;
+    }
+    reported.add(id);
+
+    const chain = [link.skill!, ...loop.map((l) => l.target)];
+    diagnostics.push(
+      createDiagnostic(
+        'MOD012',
+        'error',
+        loop.length === 1
+          ? `'${link.skill}' falls back to itself`
+          : `Fallbacks form a loop: ${chain.join(' -> ')}`,
+        link.path,
+        {
+          related: loop.slice(1).map((l) => ({
+            message: `'${l.skill}' falls back to '${l.target}' here`,
+            path: l.path,
+          })),
+        }
+      )
+    );
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Follows fallbacks from a link's target, returning the chain of links
+ * back to the skill the link replaces, if there is one.
+ */
+function findLoop(
+  start: FallbackModifierLink,
+  links: FallbackModifierLink[]
+): FallbackModifierLink[] | undefined {
+  const visited = new Set<string>();
+  const walk = (chain: FallbackModifierLink[]): FallbackModifierLink[] | undefined => {
+    const last = chain[chain.length - 1];
+    if (last.target === start.skill) {
+      return chain;
+    }
+    if (visited.has(last.target)) {
+      return undefined;
+    }
+    visited.add(last.target);
+    for (const next of links.filter((l) => l.skill === last.target)) {
+      const loop = walk([...chain, next]);
+      if (loop) {
+        return loop;
+      }
+    }
+    return undefined;
+  };
+  return walk([start]);
+}
+
+/**
+ * Describes what a fallback replaces, for messages.
+ */
+function describeReplaced(link: FallbackLink): string {
+  return link.skill === undefined ? 'the combo' : `'${link.skill}'`;
+}
+
+/**
+ * The fallback modifier with a different target, in the form it was
+ * written in.
+ */
+function retarget(modifier: EffectiveModifier, target: string): unknown {
+  return typeof modifier.raw === 'string'
+    ? `fallback:${target}`
+    : { fallback: { ...modifier.config, skill: target } };
+}
@@ -0,0 +1,287 @@
+/**
+ * Hygiene analysis of combo skill dependency graphs.
+ *
+ * This module handles:
+ * - Finding ordering constraints implied by the others (GRF003)
+ * - Finding skills that no ordering, data flow or composition step touches
+ *   (GRF007)
+ * - Finding aliases that no constraint, composition step or fallback uses
+ *   (GRF008)
+ * - Finding graphs that end in more than one skill (GRF009)
+ *
+ * Design notes:
+ * - Every finding is a warning: the combo still compiles, it is just
+ *   harder to read and review than it needs to be
+ * - Checks can be selected by code, so callers (and the CLI) can run only
+ *   the ones they care about
+ * - A combo compiles to one skill with one result, so a graph with several
+ *   final skills usually means a missing constraint. Combos that
+ *   deliberately return several outputs can leave GRF009 out
+ * - Isolated skills and sinks are only reported once the combo has some
+ *   ordering, data flow or composition order; a combo without any leaves
+ *   the order to synthesis on purpose
+ * - Skills that only serve as another skill's fallback run in its place,
+ *   so they are not reported as isolated
+ */
+
+import type { ComboSkillDefinition, Diagnostic } from '../types.js';
+import { compositionSkills } from './compositionParser.js';
+import { createDiagnostic, splitDiagnostics, type DiagnosticCode } from './diagnostics.js';
+import { collectFallbacks } from './fallbackResolver.js';
+import {
+  orderingEdges,
+  parseOrderingSteps,
+  resolveDependencyGraph,
+  skillKeys,
+  type DependencyGraph,
+} from './graphResolver.js';
+
+/**
+ * Codes of the hygiene checks, in the order they run.
+ */
+export const HYGIENE_CHECKS: DiagnosticCode[] = ['GRF003', 'GRF007', 'GRF008', 'GRF009'];
+
+/**
+ * Options for the hygiene analysis.
+ */
+export interface GraphHygieneOptions {
+  /**
+   * Checks to run, by code. Default: all of HYGIENE_CHECKS.
+   */
+  checks?: DiagnosticCode[];
+}
+
+/**
+ * Result of the hygiene analysis.
+ */
+export interface GraphHygieneResult {
+  valid: boolean;
+  errors: Diagnostic[];
+  warnings: Diagnostic[];
+}
+
+/**
+ * Analyzes a combo's dependency graph for constraints and declarations
+ * that can be simplified.
+ *
+ * @param combo - The combo skill definition
+ * @param graph - Resolved graph; resolved from the combo if omitted
+ * @param options - Checks to run
+ * @returns Validation result; findings are warnings
+ */
+export function analyzeGraphHygiene(
+  combo: ComboSkillDefinition,
+  graph: DependencyGraph = resolveDependencyGraph(combo),
+  options: GraphHygieneOptions = {}
+): GraphHygieneResult {
+  const checks = new Set(options.checks ?? HYGIENE_CHECKS);
+  const diagnostics: Diagnostic[] = [];
+
+  if (checks.has('GRF003')) {
+    diagnostics.push(...redundantOrderingDiagnostics(combo, graph));
+  }
+  if (checks.has('GRF007')) {
+    diagnostics.push(...isolatedSkillDiagnostics(combo, graph));
+  }
+  if (checks.has('GRF008')) {
+    diagnostics.push(...unusedAliasDiagnostics(combo));
+  }
+  if (checks.has('GRF009')) {
+    diagnostics.push(...multipleSinkDiagnostics(combo, graph));
+  }
+
+  const { errors, warnings } = splitDiagnostics(diagnostics);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Reports ordering constraints implied by the others, with a fix removing
+ * them.
+ */
+function redundantOrderingDiagnostics(
+  combo: ComboSkillDefinition,
+  graph: DependencyGraph
+): Diagnostic[] {
+  const ordering = combo.constraints?.ordering;
+  if (graph.hasCycles || !ordering) {
+    return [];
+  }
+
+  return findRedundantOrderings(ordering, skillKeys(combo)).map((index) => {
+    const path = ['constraints', 'ordering', index];
+    return createDiagnostic(
+      'GRF003',
+      'warning',
+      `Ordering constraint '${ordering[index]}' is implied by the other ordering constraints`,
+      path,
+      {
+        fix: {
+          description: `Remove '${ordering[index]}'`,
+          edits: [{ op: 'remove', path }],
+        },
+      }
+    );
+  });
+}
+
+/**
+ * Reports skills without any edge, when the graph has edges. Fallback
+ * targets and skills the composition runs are not reported.
+ */
+function isolatedSkillDiagnostics(
+  combo: ComboSkillDefinition,
+  graph: DependencyGraph
+): Diagnostic[] {
+  if (graph.edges.length === 0) {
+    return [];
+  }
+
+  const keys = skillKeys(combo);
+  const connected = new Set([
+    ...graph.edges.flatMap((edge) => [edge.from, edge.to]),
+    ...graph.fallbacks.map((link) => link.target),
+    ...compositionSkills(combo.composition).map((name) => keys.get(name) ?? name),
+  ]);
+  const diagnostics: Diagnostic[] = [];
+  combo.skills.forEach((skill, index) => {
+    const key = skill.alias ?? skill.name;
+    if (!connected.has(key)) {
+      diagnostics.push(
+        createDiagnostic(
+          'GRF007',
+          'warning',
+          `Skill '${key}' is not part of any ordering constraint, data flow or composition step`,
+          ['skills', index]
+        )
+      );
+    }
+  });
+  return diagnostics;
+}
+
+/**
+ * Reports aliases that no ordering constraint, data flow entry,
+ * composition step or fallback uses.
+ */
+function unusedAliasDiagnostics(combo: ComboSkillDefinition): Diagnostic[] {
+  const referenced = new Set([
+    ...(combo.constraints?.ordering ?? []).flatMap((c) => parseOrderingSteps(c).flat()),
+    ...(combo.constraints?.data_flow ?? []).flatMap((flow) => [flow.from, flow.to]),
+    ...compositionSkills(combo.composition),
+    ...collectFallbacks(combo).map((link) => link.target),
+  ]);
+
+  const diagnostics: Diagnostic[] = [];
+  combo.skills.forEach((skill, index) => {
+    if (!skill.alias || skill.alias === skill.name || referenced.has(skill.alias)) {
+      return;
+    }
+    diagnostics.push(
+      createDiagnostic(
+        'GRF008',
+        'warning',
+        referenced.has(skill.name)
+          ? `Alias '${skill.alias}' is never referenced; constraints refer to the skill as '${skill.name}'`
+          : `Alias '${skill.alias}' is never referenced`,
+        ['skills', index, 'alias']
+      )
+    );
+  });
+  return diagnostics;
+}
+
+/**
+ * Reports graphs with more than one final skill (a skill with
+ * dependencies but no dependents).
+ */
+function multipleSinkDiagnostics(
+  combo: ComboSkillDefinition,
+  graph: DependencyGraph
+): Diagnostic[] {
+  if (graph.hasCycles) {
+    return [];
+  }
+
+  const sinks = combo.skills
+    .map((skill, index) => ({ key: skill.alias ?? skill.name, index }))
+    .filter(({ key }) => {
+      const node = graph.nodes.get(key);
+      return node && node.dependencies.length > 0 && node.dependents.length === 0;
+    });
+  if (sinks.length < 2) {
+    return [];
+  }
+
+  return [
+    createDiagnostic(
+      'GRF009',
+      'warning',
+      `Combo ends in ${sinks.length} skills (${sinks.map((s) => s.key).join(', ')}); ` +
+        `order them before a single final skill unless the combo returns several outputs`,
+      ['skills'],
+      {
+        related: sinks.map(({ key, index }) => ({
+          message: `'${key}' has no dependents`,
+          path: ['skills', index],
+        })),
+      }
+    ),
+  ];
+}
+
+/**
+ * Finds ordering constraints whose edges are all implied by the others.
+ *
+ * Later constraints are checked first, so of two equivalent constraints the
+ * earlier one is kept.
+ *
+ * @param ordering - Ordering constraint strings
+ * @param keys - Node key by name, from skillKeys; constraints naming
+ *   unknown skills are skipped
+ * @returns Indices of redundant constraints, in ascending order
+ */
+function findRedundantOrderings(ordering: string[], keys: Map<string, string>): number[] {
+  const edges = ordering.map((constraint) =>
+    orderingEdges(parseOrderingSteps(constraint)).map(
+      (edge) => edge.map((name) => keys.get(name) ?? name) as [string, string]
+    )
+  );
+
+  const redundant = new Set<number>();
+  for (let i = ordering.length - 1; i >= 0; i--) {
+    if (edges[i].length === 0 || edges[i].some((edge) => edge.some((s) => !keys.has(s)))) {
+      continue;
+    }
+    const others = edges.filter((_, j) => j !== i && !redundant.has(j)).flat();
+    if (edges[i].every(([from, to]) => isReachable(others, from, to))) {
+      redundant.add(i);
+    }
+  }
+
+  return [...redundant].sort((a, b) => a - b);
+}
+
+/**
+ * Checks whether `to` is reachable from `from` along the given edges.
+ */
+function isReachable(edges: Array<[string, string]>, from: string, to: string): boolean {
+  const visited = new Set<string>([from]);
+  const queue = [from];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const [a, b] of edges) {
+      if (a !== current || visited.has(b)) continue;
+      if (b === to) return true;
+      visited.add(b);
+      queue.push(b);
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,229 @@
+/**
+ * Diagrams of combo skill dependency graphs.
+ *
+ * This module handles:
+ * - Rendering the dependency graph as Graphviz DOT or Mermaid
+ * - Labeling nodes with aliases, primitives and per-skill modifiers
+ * - Labeling data flow edges with their field mappings
+ * - Drawing fallbacks, including fallback skills that are not part of the
+ *   combo
+ *
+ * Design notes:
+ * - The diagram shows the graph built by resolveDependencyGraph, so it
+ *   matches what the compiler orders: data flow that contradicts the
+ *   ordering is left out, as it is from the graph
+ * - Ordering edges, from constraints or the composition, are solid; data
+ *   flow edges are dashed and drawn once per `data_flow` entry, alongside
+ *   any ordering edge between the same skills
+ * - Fallback edges are dotted and labeled `fallback`. Fallback skills
+ *   outside the combo get their own dashed node after the combo's skills;
+ *   the combo's own fallback is not drawn
+ * - Mermaid node ids are generated (`s0`, `s1`, ...) since skill names may
+ *   collide with Mermaid keywords such as `end`
+ * - Output is deterministic (declaration order) so diagrams diff cleanly
+ *   in review
+ */
+
+import type { ComboSkillDefinition } from '../types.js';
+import { resolveDependencyGraph, type DependencyGraph } from './graphResolver.js';
+import { formatModifier } from './modifierValidator.js';
+
+/**
+ * Supported diagram formats.
+ */
+export type GraphFormat = 'dot' | 'mermaid';
+
+/**
+ * All supported diagram formats.
+ */
+export const GRAPH_FORMATS: GraphFormat[] = ['dot', 'mermaid'];
+
+/**
+ * A node of the diagram, in display form.
+ */
+interface DiagramNode {
+  key: string;
+  lines: string[];
+
+  /**
+   * Whether the node is a fallback skill outside the combo.
+   */
+  external?: boolean;
+}
+
+/**
+ * An edge of the diagram, in display form.
+ */
+interface DiagramEdge {
+  from: string;
+  to: string;
+  kind: 'ordering' | 'data-flow' | 'fallback';
+  label?: string;
+}
+
+/**
+ * Renders the dependency graph of a combo skill.
+ *
+ * @param combo - The combo skill definition
+ * @param format - Diagram format
+ * @param graph - Resolved graph; resolved from the combo if omitted
+ * @returns The diagram source
+ */
+export function renderGraph(
+  combo: ComboSkillDefinition,
+  format: GraphFormat,
+  graph: DependencyGraph = resolveDependencyGraph(combo)
+): string {
+  switch (format) {
+    case 'dot':
+      return renderDot(combo, graph);
+    case 'mermaid':
+      return renderMermaid(combo, graph);
+    default:
+      throw new Error(
+        `Unknown graph format '${format as string}', expected one of: ${GRAPH_FORMATS.join(', ')}`
+      );
+  }
+}
+
+/**
+ * Renders the dependency graph as a Graphviz DOT digraph.
+ *
+ * Skills in the same execution stage share a rank.
+ *
+ * @param combo - The combo skill definition
+ * @param graph - Resolved graph; resolved from the combo if omitted
+ * @returns DOT source
+ */
+export function renderDot(
+  combo: ComboSkillDefinition,
+  graph: DependencyGraph = resolveDependencyGraph(combo)
+): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+  const lines = [
+    `digraph ${quote(combo.name)} {`,
+    '  rankdir=LR;',
+    '  node [shape=box];',
+  ];
+
+  for (const node of diagramNodes(combo, graph)) {
+    const label = `label=${quote(node.lines.join('\n')).replace(/\n/g, '\\n')}`;
+    lines.push(`  ${quote(node.key)} [${node.external ? `${label}, style=dashed` : label}];`);
+  }
+
+  for (const edge of diagramEdges(combo, graph)) {
+    const style = edge.kind === 'data-flow' ? 'dashed' : edge.kind === 'fallback' ? 'dotted' : undefined;
+    const attributes = style
+      ? [`style=${style}`, ...(edge.label ? [`label=${quote(edge.label)}`] : [])]
+      : [];
+    lines.push(
+      `  ${quote(edge.from)} -> ${quote(edge.to)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`
+    );
+  }
+
+  for (const stage of graph.stages) {
+    if (stage.length > 1) {
+      lines.push(`  { rank=same; ${stage.map((key) => `${quote(key)};`).join(' ')} }`);
+    }
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Renders the dependency graph as a Mermaid flowchart.
+ *
+ * @param combo - The combo skill definition
+ * @param graph - Resolved graph; resolved from the combo if omitted
+ * @returns Mermaid source, without a surrounding code fence
+ */
+export function renderMermaid(
+  combo: ComboSkillDefinition,
+  graph: DependencyGraph = resolveDependencyGraph(combo)
+): string {
+  const escape = (text: string) =>
+    text.replace(/&/g, '#amp;').replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+
+  const nodes = diagramNodes(combo, graph);
+  const ids = new Map(nodes.map((node, index) => [node.key, `s${index}`]));
+
+  const lines = ['flowchart LR'];
+  for (const node of nodes) {
+    const label = `"${node.lines.map(escape).join('<br/>')}"`;
+    lines.push(`  ${ids.get(node.key)}${node.external ? `([${label}])` : `[${label}]`}`);
+  }
+
+  for (const edge of diagramEdges(combo, graph)) {
+    const from = ids.get(edge.from);
+    const to = ids.get(edge.to);
+    if (edge.kind === 'ordering') {
+      lines.push(`  ${from} --> ${to}`);
+    } else if (edge.kind === 'fallback') {
+      lines.push(`  ${from} -. fallback .-> ${to}`);
+    } else if (edge.label) {
+      lines.push(`  ${from} -.->|"${escape(edge.label)}"| ${to}`);
+    } else {
+      lines.push(`  ${from} -.-> ${to}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Builds the display form of each skill, in declaration order, followed by
+ * fallback skills outside the combo in order of first use.
+ */
+function diagramNodes(combo: ComboSkillDefinition, graph: DependencyGraph): DiagramNode[] {
+  const skills = combo.skills.map((skill): DiagramNode => {
+    const key = skill.alias ?? skill.name;
+    const lines = [skill.alias && skill.alias !== skill.name ? `${skill.alias} (${skill.name})` : key];
+    if (skill.primitives && skill.primitives.length > 0) {
+      lines.push(`[${skill.primitives.join(', ')}]`);
+    }
+    if (skill.modifiers && skill.modifiers.length > 0) {
+      lines.push(skill.modifiers.map(formatModifier).join(', '));
+    }
+    return { key, lines };
+  });
+
+  const external = new Set(graph.fallbacks.filter((l) => !l.declared).map((l) => l.target));
+  return [...skills, ...[...external].map((key) => ({ key, lines: [key], external: true }))];
+}
+
+/**
+ * Builds the display form of each edge: ordering edges first, then one
+ * data flow edge per `data_flow` entry in the graph, then fallbacks.
+ */
+function diagramEdges(combo: ComboSkillDefinition, graph: DependencyGraph): DiagramEdge[] {
+  const dataFlow = combo.constraints?.data_flow ?? [];
+  const ordering: DiagramEdge[] = [];
+  const flows: Array<DiagramEdge & { index: number }> = [];
+
+  for (const edge of graph.edges) {
+    if (edge.constraints.length > 0 || edge.composition.length > 0) {
+      ordering.push({ from: edge.from, to: edge.to, kind: 'ordering' });
+    }
+    for (const index of edge.dataFlow) {
+      const mapping = Object.entries(dataFlow[index]?.mapping ?? {});
+      flows.push({
+        from: edge.from,
+        to: edge.to,
+        kind: 'data-flow',
+        label:
+          mapping.length > 0
+            ? mapping.map(([output, input]) => (output === input ? output : `${output} → ${input}`)).join(', ')
+            : undefined,
+        index,
+      });
+    }
+  }
+
+  flows.sort((a, b) => a.index - b.index);
+  const fallbacks = graph.fallbacks.map(
+    (link): DiagramEdge => ({ from: link.skill!, to: link.target, kind: 'fallback', label: 'fallback' })
+  );
+  return [...ordering, ...flows.map(({ index: _index, ...edge }) => edge), ...fallbacks];
+}
@@ -3,17 +3,51 @@
  *
  * This module handles:
  * - Parsing ordering constraints from combo definitions
- * - Building a directed graph of skill dependencies
+ * - Building a directed graph of skill dependencies, including implicit
+ *   edges from data flow
+ * - Checking data flow against ordering, and ordering against the
+ *   composition
  * - Topological sorting to determine execution order
- * - Detecting circular dependencies
+ * - Grouping skills into stages that can run concurrently
+ * - Detecting circular dependencies (every strongly connected component)
+ *   and suggesting edges to drop
  *
  * Design notes:
  * - We treat skills as nodes and ordering constraints as edges
+ * - Nodes are keyed by alias, or name when a skill has none. Constraints
+ *   may also name an aliased skill by its name, as long as no other skill
+ *   shares it; skillKeys maps both to the node key, so validation and
+ *   graph construction accept the same names
  * - The graph is used during compilation to ensure coherent synthesis
  * - Circular dependencies are errors, not warnings
+ * - Resolution runs several times per validation, so it never logs.
+ *   Constraints it cannot use are left out of the graph and reported by
+ *   validateConstraints
+ * - Each edge remembers the ordering constraints and data flow entries that
+ *   declare it, so diagnostics can point at the exact entries to change
+ * - The composition's order adds edges too, so a combo with only a
+ *   composition still gets stages. When the composition runs a skill more
+ *   than once, its first run sets the order
+ * - Edges are added by precedence: ordering, then composition, then data
+ *   flow. An edge that contradicts the ones before it is left out of the
+ *   graph and reported on its own, rather than as a cycle
+ * - Fallbacks between skills are recorded alongside the graph but are not
+ *   edges: a fallback runs instead of a skill, not before or after it
+ * - Execution order is stable: among skills whose dependencies have run,
+ *   higher `priority` goes first, then declaration order. The same skills
+ *   and edges always give the same order, however constraints are written
  */
 
-import type { ComboSkillDefinition } from '../types.js';
+import type {
+  ComboSkillDefinition,
+  Diagnostic,
+  DocumentEdit,
+  DocumentPath,
+  FallbackLink,
+} from '../types.js';
+import { compositionOrder, parseComposition } from './compositionParser.js';
+import { closestMatch, createDiagnostic, splitDiagnostics } from './diagnostics.js';
+import { collectFallbacks } from './fallbackResolver.js';
 
 /**
  * Represents a node in the skill dependency graph.
@@ -21,18 +55,176 @@ import type { ComboSkillDefinition } from '../types.js';
 export interface SkillNode {
   name: string;
   alias?: string;
+
+  /**
+   * Position of the skill in the combo's `skills` list.
+   */
+  index: number;
+
+  /**
+   * The skill's `priority` (default 0).
+   */
+  priority: number;
+
   dependencies: string[];
   dependents: string[];
 }
 
+/**
+ * An edge in the dependency graph: `from` must run before `to`.
+ */
+export interface DependencyEdge {
+  from: string;
+  to: string;
+
+  /**
+   * Indices into `constraints.ordering` of the constraints declaring the edge.
+   */
+  constraints: number[];
+
+  /**
+   * Indices into `constraints.data_flow` of the data flow entries implying
+   * the edge.
+   */
+  dataFlow: number[];
+
+  /**
+   * Document paths of the composition steps that run `to` right after
+   * `from`.
+   */
+  composition: DocumentPath[];
+}
+
+/**
+ * A data flow entry whose direction contradicts the ordering constraints
+ * or the composition.
+ */
+export interface DataFlowContradiction {
+  /**
+   * Index into `constraints.data_flow`.
+   */
+  dataFlow: number;
+
+  /**
+   * Ordering and composition edges leading from the entry's `to` back to
+   * its `from`.
+   */
+  path: DependencyEdge[];
+}
+
+/**
+ * An ordering edge that runs its skills against the composition's order.
+ */
+export interface CompositionContradiction {
+  /**
+   * The ordering edge.
+   */
+  edge: DependencyEdge;
+
+  /**
+   * Composition edges leading from the edge's `to` back to its `from`.
+   */
+  path: DependencyEdge[];
+}
+
+/**
+ * A group of skills that depend on each other in a cycle
+ * (a strongly connected component of the graph).
+ */
+export interface DependencyCycle {
+  /**
+   * Skills in the component, in declaration order.
+   */
+  skills: string[];
+
+  /**
+   * One cycle through the component, e.g. ['a', 'b', 'a'].
+   */
+  path: string[];
+
+  /**
+   * Edges between skills of the component.
+   */
+  edges: DependencyEdge[];
+
+  /**
+   * Edges whose removal breaks every cycle in the component, chosen to
+   * change as few constraints as possible.
+   */
+  suggestedRemovals: DependencyEdge[];
+}
+
 /**
  * The resolved dependency graph.
  */
 export interface DependencyGraph {
   nodes: Map<string, SkillNode>;
+  edges: DependencyEdge[];
+
+  /**
+   * Skills in execution order. Ties between skills that are ready to run
+   * are broken by `priority` (higher first), then declaration order, so the
+   * order depends only on the skills and the set of edges. Empty when the
+   * graph has cycles.
+   */
   executionOrder: string[];
+
+  /**
+   * Execution stages: each stage holds the skills whose dependencies all
+   * ran in earlier stages, so the skills within a stage can run
+   * concurrently. Skills within a stage are in the same tie-break order as
+   * executionOrder. Empty when the graph has cycles.
+   */
+  stages: string[][];
+
   hasCycles: boolean;
+
+  /**
+   * One cycle path per cyclic component.
+   */
   cycles?: string[][];
+
+  /**
+   * Details of each cyclic component.
+   */
+  cycleComponents?: DependencyCycle[];
+
+  /**
+   * Data flow entries left out of the graph because ordering or the
+   * composition says otherwise.
+   */
+  contradictions: DataFlowContradiction[];
+
+  /**
+   * Ordering edges that the composition runs the other way round. The
+   * composition edges they contradict are left out of the graph.
+   */
+  compositionContradictions: CompositionContradiction[];
+
+  /**
+   * Fallbacks of the combo's skills, in declaration order. Targets may be
+   * skills outside the graph; the combo's own fallback is not included.
+   */
+  fallbacks: FallbackLink[];
+}
+
+/**
+ * Maps the names constraints may use for the combo's skills to node keys:
+ * each key to itself, and the name of an aliased skill to its alias unless
+ * that name is a key or is shared by several skills.
+ *
+ * @param combo - The combo skill definition
+ * @returns Node key by name
+ */
+export function skillKeys(combo: ComboSkillDefinition): Map<string, string> {
+  const keys = new Map(combo.skills.map((s) => [s.alias ?? s.name, s.alias ?? s.name]));
+  for (const skill of combo.skills) {
+    const shared = combo.skills.filter((s) => s.name === skill.name).length > 1;
+    if (skill.alias && !keys.has(skill.name) && !shared) {
+      keys.set(skill.name, skill.alias);
+    }
+  }
+  return keys;
 }
 
 /**
@@ -47,145 +239,423 @@ export function resolveDependencyGraph(
   const nodes = new Map<string, SkillNode>();
 
   // Initialize nodes from skills list
-  for (const skill of combo.skills) {
+  combo.skills.forEach((skill, index) => {
     const key = skill.alias ?? skill.name;
     nodes.set(key, {
       name: skill.name,
       alias: skill.alias,
+      index,
+      priority: skill.priority ?? 0,
       dependencies: [],
       dependents: [],
     });
-  }
+  });
 
   // Parse ordering constraints and build edges
-  if (combo.constraints?.ordering) {
-    for (const constraint of combo.constraints.ordering) {
-      parseOrderingConstraint(constraint, nodes);
+  const keys = skillKeys(combo);
+  const edges = new Map<string, DependencyEdge>();
+  combo.constraints?.ordering?.forEach((constraint, index) => {
+    parseOrderingConstraint(constraint, index, keys, nodes, edges);
+  });
+
+  // Ordering must not run skills against the composition
+  const composed = compositionEdges(combo, keys);
+  const compositionContradictions: CompositionContradiction[] = [];
+  for (const edge of edges.values()) {
+    const reverse = findPath(edge.to, edge.from, composed);
+    if (reverse) {
+      compositionContradictions.push({ edge, path: reverse });
     }
   }
 
+  // The composition runs its skills in order; edges it contradicts are
+  // reported above and left out
+  for (const edge of composed) {
+    if (findPath(edge.to, edge.from, [...edges.values()])) continue;
+    addEdge(edge.from, edge.to, nodes, edges).composition.push(...edge.composition);
+  }
+
+  // Data flow implies that the producer runs before the consumer
+  const contradictions: DataFlowContradiction[] = [];
+  combo.constraints?.data_flow?.forEach((flow, index) => {
+    const from = keys.get(flow.from);
+    const to = keys.get(flow.to);
+    if (!from || !to || from === to) return;
+
+    const reverse = findPath(to, from, [...edges.values()]);
+    if (reverse) {
+      contradictions.push({ dataFlow: index, path: reverse });
+      return;
+    }
+
+    addEdge(from, to, nodes, edges).dataFlow.push(index);
+  });
+
   // Detect cycles
-  const cycleResult = detectCycles(nodes);
+  const cycleComponents = detectCycles(nodes, [...edges.values()]);
+  const hasCycles = cycleComponents.length > 0;
 
-  // Compute topological order if no cycles
-  const executionOrder = cycleResult.hasCycles
+  // Compute topological order and stages if no cycles
+  const executionOrder = hasCycles
     ? []
     : topologicalSort(nodes);
+  const stages = hasCycles ? [] : computeStages(nodes);
 
   return {
     nodes,
+    edges: [...edges.values()],
     executionOrder,
-    hasCycles: cycleResult.hasCycles,
-    cycles: cycleResult.cycles,
+    stages,
+    hasCycles,
+    cycles: hasCycles ? cycleComponents.map((c) => c.path) : undefined,
+    cycleComponents: hasCycles ? cycleComponents : undefined,
+    contradictions,
+    compositionContradictions,
+    fallbacks: collectFallbacks(combo).filter((link) => link.skill !== undefined),
   };
 }
 
 /**
- * Parses an ordering constraint string and updates the graph.
+ * Splits an ordering constraint into its steps.
  *
  * Supported formats:
  * - "a -> b" (a must come before b)
  * - "a -> b -> c" (chained ordering)
+ * - "a -> [b, c] -> d" (fan-out to b and c, fan-in to d)
  *
  * @param constraint - Ordering constraint string
+ * @returns One group of skill names per step
+ */
+export function parseOrderingSteps(constraint: string): string[][] {
+  return constraint.split(/\s*->\s*/).map((step) => {
+    const trimmed = step.trim();
+    const group = trimmed.match(/^\[(.*)\]$/);
+    if (!group) {
+      return [trimmed];
+    }
+    return group[1]
+      .split(',')
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0);
+  });
+}
+
+/**
+ * Formats ordering steps back into constraint syntax.
+ */
+export function formatOrderingSteps(steps: string[][]): string {
+  return steps
+    .map((step) => (step.length === 1 ? step[0] : `[${step.join(', ')}]`))
+    .join(' -> ');
+}
+
+/**
+ * Lists the edges of an ordering constraint: every skill in a step comes
+ * before every skill in the next step.
+ */
+export function orderingEdges(steps: string[][]): Array<[string, string]> {
+  const edges: Array<[string, string]> = [];
+  for (let i = 0; i < steps.length - 1; i++) {
+    for (const from of steps[i]) {
+      for (const to of steps[i + 1]) {
+        edges.push([from, to]);
+      }
+    }
+  }
+  return edges;
+}
+
+/**
+ * Parses an ordering constraint string and updates the graph.
+ *
+ * @param constraint - Ordering constraint string
+ * @param index - Index of the constraint in `constraints.ordering`
+ * @param keys - Node key by name, from skillKeys
  * @param nodes - The node map to update
+ * @param edges - The edge map to update, keyed by `from -> to`
  */
 function parseOrderingConstraint(
   constraint: string,
-  nodes: Map<string, SkillNode>
+  index: number,
+  keys: Map<string, string>,
+  nodes: Map<string, SkillNode>,
+  edges: Map<string, DependencyEdge>
 ): void {
-  // Split on arrow, handling spaces
-  const parts = constraint.split(/\s*->\s*/);
+  const steps = parseOrderingSteps(constraint);
 
-  if (parts.length < 2) {
-    console.warn(`[graphResolver] Invalid ordering constraint: ${constraint}`);
+  // Malformed constraints (GRF010) and unknown skills (GRF002) are left out
+  // of the graph; validateConstraints reports them
+  if (!isWellFormed(steps)) {
     return;
   }
 
-  // Create edges for each consecutive pair
-  for (let i = 0; i < parts.length - 1; i++) {
-    const from = parts[i].trim();
-    const to = parts[i + 1].trim();
-
+  // Create edges between consecutive steps
+  for (const [fromName, toName] of orderingEdges(steps)) {
+    const from = keys.get(fromName) ?? fromName;
+    const to = keys.get(toName) ?? toName;
     const fromNode = nodes.get(from);
     const toNode = nodes.get(to);
 
-    if (!fromNode) {
-      console.warn(`[graphResolver] Unknown skill in constraint: ${from}`);
+    if (!fromNode || !toNode) {
       continue;
     }
 
-    if (!toNode) {
-      console.warn(`[graphResolver] Unknown skill in constraint: ${to}`);
-      continue;
+    const edge = addEdge(from, to, nodes, edges);
+    if (!edge.constraints.includes(index)) {
+      edge.constraints.push(index);
     }
+  }
+}
 
-    // Add edge: from -> to means 'to' depends on 'from'
-    if (!toNode.dependencies.includes(from)) {
-      toNode.dependencies.push(from);
-    }
-    if (!fromNode.dependents.includes(to)) {
-      fromNode.dependents.push(to);
-    }
+/**
+ * Checks that ordering steps have at least two steps and no empty one.
+ */
+function isWellFormed(steps: string[][]): boolean {
+  return steps.length >= 2 && steps.every((step) => step.length > 0 && !step.includes(''));
+}
+
+/**
+ * Adds an edge between two known skills, or returns the existing one.
+ */
+function addEdge(
+  from: string,
+  to: string,
+  nodes: Map<string, SkillNode>,
+  edges: Map<string, DependencyEdge>
+): DependencyEdge {
+  const key = `${from} -> ${to}`;
+  const edge = edges.get(key) ?? { from, to, constraints: [], dataFlow: [], composition: [] };
+  edges.set(key, edge);
+
+  // Add edge: from -> to means 'to' depends on 'from'
+  const fromNode = nodes.get(from)!;
+  const toNode = nodes.get(to)!;
+  if (!toNode.dependencies.includes(from)) {
+    toNode.dependencies.push(from);
+  }
+  if (!fromNode.dependents.includes(to)) {
+    fromNode.dependents.push(to);
+  }
+
+  return edge;
+}
+
+/**
+ * Lists the edges the combo's composition implies between node keys.
+ *
+ * A pair that would run against an earlier one (a skill the composition
+ * runs again later) is left out, so the edges never form a cycle.
+ *
+ * @param combo - The combo skill definition
+ * @param keys - Node key by name, from skillKeys
+ * @returns Edges in document order; empty without a valid composition
+ */
+function compositionEdges(
+  combo: ComboSkillDefinition,
+  keys: Map<string, string>
+): DependencyEdge[] {
+  const { ast } = parseComposition(combo);
+  if (!ast) {
+    return [];
   }
+
+  const edges = new Map<string, DependencyEdge>();
+  for (const { before, after } of compositionOrder(ast)) {
+    const from = keys.get(before.skill);
+    const to = keys.get(after.skill);
+    if (!from || !to || from === to || findPath(to, from, [...edges.values()])) continue;
+
+    const key = `${from} -> ${to}`;
+    const edge = edges.get(key) ?? { from, to, constraints: [], dataFlow: [], composition: [] };
+    edge.composition.push(after.path);
+    edges.set(key, edge);
+  }
+  return [...edges.values()];
 }
 
 /**
- * Detects cycles in the dependency graph using DFS.
+ * Finds every cyclic strongly connected component of the graph.
  *
  * @param nodes - The node map
- * @returns Cycle detection result
+ * @param edges - The graph's edges
+ * @returns One entry per cyclic component, in declaration order
  */
 function detectCycles(
-  nodes: Map<string, SkillNode>
-): { hasCycles: boolean; cycles?: string[][] } {
-  const visited = new Set<string>();
-  const recursionStack = new Set<string>();
-  const cycles: string[][] = [];
+  nodes: Map<string, SkillNode>,
+  edges: DependencyEdge[]
+): DependencyCycle[] {
+  return cyclicComponents([...nodes.keys()], edges).map((skills) => {
+    const members = new Set(skills);
+    const internal = edges.filter((e) => members.has(e.from) && members.has(e.to));
+    return {
+      skills,
+      path: findCyclePath(skills[0], internal),
+      edges: internal,
+      suggestedRemovals: suggestRemovals(skills, internal),
+    };
+  });
+}
+
+/**
+ * Tarjan's algorithm, keeping only components that contain a cycle
+ * (more than one skill, or a skill ordered before itself).
+ *
+ * @param keys - Skill keys in declaration order
+ * @param edges - Edges to consider
+ * @returns Cyclic components, each listing its skills in declaration order
+ */
+function cyclicComponents(keys: string[], edges: DependencyEdge[]): string[][] {
+  const successors = new Map<string, string[]>(keys.map((key) => [key, []]));
+  for (const { from, to } of edges) {
+    successors.get(from)?.push(to);
+  }
 
-  function dfs(nodeKey: string, path: string[]): boolean {
-    visited.add(nodeKey);
-    recursionStack.add(nodeKey);
-    path.push(nodeKey);
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
 
-    const node = nodes.get(nodeKey);
-    if (!node) return false;
+  function connect(key: string): void {
+    index.set(key, index.size);
+    lowLink.set(key, index.get(key)!);
+    stack.push(key);
+    onStack.add(key);
 
-    for (const dependent of node.dependents) {
-      if (!visited.has(dependent)) {
-        if (dfs(dependent, [...path])) {
-          return true;
-        }
-      } else if (recursionStack.has(dependent)) {
-        // Found a cycle
-        const cycleStart = path.indexOf(dependent);
-        const cycle = path.slice(cycleStart);
-        cycle.push(dependent);
-        cycles.push(cycle);
-        return true;
+    for (const next of successors.get(key) ?? []) {
+      if (!index.has(next)) {
+        connect(next);
+        lowLink.set(key, Math.min(lowLink.get(key)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(key, Math.min(lowLink.get(key)!, index.get(next)!));
       }
     }
 
-    recursionStack.delete(nodeKey);
-    return false;
+    if (lowLink.get(key) === index.get(key)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== key);
+
+      const selfLoop = edges.some((e) => e.from === key && e.to === key);
+      if (component.length > 1 || selfLoop) {
+        components.push(keys.filter((k) => component.includes(k)));
+      }
+    }
   }
 
-  for (const nodeKey of nodes.keys()) {
-    if (!visited.has(nodeKey)) {
-      dfs(nodeKey, []);
+  for (const key of keys) {
+    if (!index.has(key)) {
+      connect(key);
     }
   }
 
-  return {
-    hasCycles: cycles.length > 0,
-    cycles: cycles.length > 0 ? cycles : undefined,
-  };
+  // Report components in the order their first skill was declared
+  return components.sort((a, b) => keys.indexOf(a[0]) - keys.indexOf(b[0]));
+}
+
+/**
+ * Finds a shortest cycle from a skill back to itself.
+ */
+function findCyclePath(start: string, edges: DependencyEdge[]): string[] {
+  const path = findPath(start, start, edges) ?? [];
+  return [start, ...path.map((edge) => edge.to)];
+}
+
+/**
+ * Finds a shortest path between two skills (breadth-first).
+ *
+ * @returns The edges along the path, or undefined if there is none
+ */
+function findPath(
+  start: string,
+  goal: string,
+  edges: DependencyEdge[]
+): DependencyEdge[] | undefined {
+  const via = new Map<string, DependencyEdge>();
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.from !== current) continue;
+      if (edge.to === goal) {
+        const path = [edge];
+        for (let key = current; key !== start; key = via.get(key)!.from) {
+          path.unshift(via.get(key)!);
+        }
+        return path;
+      }
+      if (!via.has(edge.to) && edge.to !== start) {
+        via.set(edge.to, edge);
+        queue.push(edge.to);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Chooses edges to drop so that a component becomes acyclic.
+ *
+ * Greedily drops the edge that leaves the fewest skills in cycles,
+ * preferring edges declared by fewer constraints, then edges declared
+ * later (the most recent constraint is the likeliest mistake). Edges
+ * implied by data flow are never suggested; the result may then not break
+ * every cycle.
+ */
+function suggestRemovals(skills: string[], edges: DependencyEdge[]): DependencyEdge[] {
+  const removals: DependencyEdge[] = [];
+  let remaining = edges;
+
+  while (cyclicComponents(skills, remaining).length > 0) {
+    let best: DependencyEdge | undefined;
+    let bestScore: number[] = [];
+
+    for (const edge of remaining) {
+      // Only edges declared purely by ordering can be dropped
+      if (edge.constraints.length === 0 || edge.dataFlow.length > 0) continue;
+
+      const rest = remaining.filter((e) => e !== edge);
+      const score = [
+        cyclicComponents(skills, rest).reduce((n, c) => n + c.length, 0),
+        edge.constraints.length,
+        -Math.max(...edge.constraints),
+      ];
+      if (!best || compareScores(score, bestScore) < 0) {
+        best = edge;
+        bestScore = score;
+      }
+    }
+
+    if (!best) break;
+    removals.push(best);
+    remaining = remaining.filter((e) => e !== best);
+  }
+
+  return removals;
+}
+
+/**
+ * Compares two score tuples lexicographically.
+ */
+function compareScores(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
 }
 
 /**
  * Computes a topological ordering of skills.
  *
- * Uses Kahn's algorithm for topological sorting.
+ * Uses Kahn's algorithm, always taking the first ready skill by
+ * compareNodes. The result depends only on the skills and the set of
+ * edges, not on the order constraints are declared in.
  *
  * @param nodes - The node map
  * @returns Array of skill names in execution order
@@ -198,17 +668,19 @@ function topologicalSort(nodes: Map<string, SkillNode>): string[] {
   }
 
   // Start with nodes that have no dependencies
-  const queue: string[] = [];
+  const ready: string[] = [];
   for (const [key, degree] of inDegree) {
     if (degree === 0) {
-      queue.push(key);
+      ready.push(key);
     }
   }
 
   const result: string[] = [];
+  const byOrder = (a: string, b: string) => compareNodes(nodes.get(a)!, nodes.get(b)!);
 
-  while (queue.length > 0) {
-    const current = queue.shift()!;
+  while (ready.length > 0) {
+    ready.sort(byOrder);
+    const current = ready.shift()!;
     result.push(current);
 
     const node = nodes.get(current);
@@ -219,7 +691,7 @@ function topologicalSort(nodes: Map<string, SkillNode>): string[] {
       inDegree.set(dependent, newDegree);
 
       if (newDegree === 0) {
-        queue.push(dependent);
+        ready.push(dependent);
       }
     }
   }
@@ -227,44 +699,454 @@ function topologicalSort(nodes: Map<string, SkillNode>): string[] {
   return result;
 }
 
+/**
+ * Orders skills that are ready to run: higher priority first, then
+ * declaration order.
+ */
+function compareNodes(a: SkillNode, b: SkillNode): number {
+  return b.priority - a.priority || a.index - b.index;
+}
+
+/**
+ * Groups skills into execution stages.
+ *
+ * Each stage holds the skills whose dependencies are all in earlier stages.
+ * Within a stage, skills run higher priority first, then declaration order.
+ *
+ * @param nodes - The node map (must be acyclic)
+ * @returns Stages in execution order
+ */
+function computeStages(nodes: Map<string, SkillNode>): string[][] {
+  const stages: string[][] = [];
+  const placed = new Set<string>();
+
+  while (placed.size < nodes.size) {
+    const stage = [...nodes.entries()]
+      .filter(([key, node]) => !placed.has(key) && node.dependencies.every((d) => placed.has(d)))
+      .sort(([, a], [, b]) => compareNodes(a, b))
+      .map(([key]) => key);
+    if (stage.length === 0) break;
+
+    stage.forEach((key) => placed.add(key));
+    stages.push(stage);
+  }
+
+  return stages;
+}
+
 /**
  * Validates that a combo skill's constraints are satisfiable.
  *
+ * Constraints that are valid but could be simplified are reported by
+ * analyzeGraphHygiene (see graphHygiene.ts).
+ *
  * @param combo - The combo skill definition
- * @returns Validation result with any errors
+ * @returns Validation result with any errors and warnings
  */
 export function validateConstraints(
   combo: ComboSkillDefinition
-): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
+): { valid: boolean; errors: Diagnostic[]; warnings: Diagnostic[] } {
+  const errors: Diagnostic[] = [];
+  const warnings: Diagnostic[] = [];
 
   const graph = resolveDependencyGraph(combo);
 
-  if (graph.hasCycles) {
-    for (const cycle of graph.cycles ?? []) {
-      errors.push(`Circular dependency detected: ${cycle.join(' -> ')}`);
-    }
-  }
+  errors.push(...cycleDiagnostics(graph, combo));
 
   // Check that all skills in constraints are defined
   if (combo.constraints?.ordering) {
-    const skillNames = new Set(
-      combo.skills.flatMap((s) => [s.name, s.alias].filter(Boolean))
-    );
+    const keys = skillKeys(combo);
 
-    for (const constraint of combo.constraints.ordering) {
-      const parts = constraint.split(/\s*->\s*/);
-      for (const part of parts) {
-        const name = part.trim();
-        if (!skillNames.has(name)) {
-          errors.push(`Unknown skill in ordering constraint: ${name}`);
+    combo.constraints.ordering.forEach((constraint, index) => {
+      const path = ['constraints', 'ordering', index];
+      const steps = parseOrderingSteps(constraint);
+      if (!isWellFormed(steps)) {
+        errors.push(
+          createDiagnostic(
+            'GRF010',
+            'error',
+            `Invalid ordering constraint '${constraint}': expected two or more steps such as 'a -> b'`,
+            path
+          )
+        );
+        return;
+      }
+      for (const name of steps.flat()) {
+        if (keys.has(name)) {
+          continue;
         }
+
+        const suggestion = suggestSkill(name, combo, keys);
+        errors.push(
+          createDiagnostic(
+            'GRF002',
+            'error',
+            unknownSkillMessage('Unknown skill in ordering constraint', name, combo, suggestion),
+            path,
+            suggestion
+              ? {
+                  fix: {
+                    description: `Replace '${name}' with '${suggestion}'`,
+                    edits: [
+                      {
+                        op: 'replace',
+                        path,
+                        value: formatOrderingSteps(
+                          steps.map((step) => step.map((n) => (n === name ? suggestion : n)))
+                        ),
+                      },
+                    ],
+                  },
+                }
+              : {}
+          )
+        );
       }
-    }
+    });
+  }
+
+  errors.push(...compositionContradictionDiagnostics(graph, combo));
+
+  if (combo.constraints?.data_flow) {
+    const { errors: flowErrors, warnings: flowWarnings } = splitDiagnostics(
+      dataFlowDiagnostics(graph, combo)
+    );
+    errors.push(...flowErrors);
+    warnings.push(...flowWarnings);
   }
 
   return {
     valid: errors.length === 0,
     errors,
+    warnings,
   };
 }
+
+/**
+ * Reports each cyclic component of a graph as a diagnostic.
+ *
+ * The diagnostic points at the constraint of the edge suggested for removal
+ * and lists every constraint that contributes an edge to the cycle. The fix
+ * drops the first suggested edge by rewriting the constraints declaring it;
+ * if more edges need to go, the remaining cycle is reported again.
+ *
+ * @param graph - The resolved dependency graph
+ * @param combo - The combo skill definition the graph was built from
+ * @returns One GRF001 diagnostic per cyclic component
+ */
+export function cycleDiagnostics(
+  graph: DependencyGraph,
+  combo: ComboSkillDefinition
+): Diagnostic[] {
+  const ordering = combo.constraints?.ordering ?? [];
+  const at = (index: number) => ['constraints', 'ordering', index];
+  const dataFlowAt = (index: number) => ['constraints', 'data_flow', index];
+  const formatEdge = (edge: DependencyEdge) => `'${edge.from} -> ${edge.to}'`;
+
+  return (graph.cycleComponents ?? []).map((cycle) => {
+    const removals = cycle.suggestedRemovals;
+
+    let message = `Circular dependency detected: ${cycle.path.join(' -> ')}`;
+    if (cycle.skills.length > cycle.path.length - 1) {
+      message += ` (${cycle.skills.join(', ')} all depend on each other)`;
+    }
+    if (removals.length > 0) {
+      message += `; drop ${removals.map(formatEdge).join(' and ')} to break ${removals.length === 1 ? 'it' : 'all cycles'}`;
+    }
+
+    // Every constraint contributing an edge, with the edges it declares
+    const declared = new Map<number, DependencyEdge[]>();
+    for (const edge of cycle.edges) {
+      for (const index of edge.constraints) {
+        declared.set(index, [...(declared.get(index) ?? []), edge]);
+      }
+    }
+    const related = [...declared.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, edges]) => ({
+        message: `'${ordering[index]}' orders ${edges.map((e) => `${e.from} before ${e.to}`).join(', ')}`,
+        path: at(index),
+      }));
+    for (const edge of cycle.edges) {
+      for (const index of edge.dataFlow) {
+        related.push({
+          message: `'${edge.from} -> ${edge.to}' data flow orders ${edge.from} before ${edge.to}`,
+          path: dataFlowAt(index),
+        });
+      }
+    }
+
+    const primary = removals[0] ?? cycle.edges[0];
+    return createDiagnostic(
+      'GRF001',
+      'error',
+      message,
+      !primary
+        ? ['constraints', 'ordering']
+        : primary.constraints.length > 0
+          ? at(Math.max(...primary.constraints))
+          : dataFlowAt(primary.dataFlow[0]),
+      {
+        related,
+        fix: removals[0]
+          ? {
+              description: `Drop ${formatEdge(removals[0])}`,
+              edits: removeEdgeEdits(ordering, removals[0], skillKeys(combo)),
+            }
+          : undefined,
+      }
+    );
+  });
+}
+
+/**
+ * Reports ordering edges that run against the composition (CMP005).
+ *
+ * The diagnostic points at the first constraint declaring the edge, notes
+ * the composition steps that run the skills the other way round, and
+ * offers to drop the edge.
+ *
+ * @param graph - The resolved dependency graph
+ * @param combo - The combo skill definition the graph was built from
+ * @returns One CMP005 diagnostic per contradicted edge
+ */
+function compositionContradictionDiagnostics(
+  graph: DependencyGraph,
+  combo: ComboSkillDefinition
+): Diagnostic[] {
+  const ordering = combo.constraints?.ordering ?? [];
+
+  return graph.compositionContradictions.map(({ edge, path }) => {
+    const [first, ...others] = [...edge.constraints].sort((a, b) => a - b);
+    return createDiagnostic(
+      'CMP005',
+      'error',
+      `Ordering runs ${edge.from} before ${edge.to}, but the composition runs ` +
+        `${[path[0].from, ...path.map((step) => step.to)].join(' -> ')}`,
+      ['constraints', 'ordering', first],
+      {
+        related: [
+          ...others.map((index) => ({
+            message: `'${ordering[index]}' also orders ${edge.from} before ${edge.to}`,
+            path: ['constraints', 'ordering', index],
+          })),
+          ...path.map((step) => ({
+            message: `The composition runs ${step.to} after ${step.from} here`,
+            path: step.composition[0],
+          })),
+        ],
+        fix: {
+          description: `Drop '${edge.from} -> ${edge.to}'`,
+          edits: removeEdgeEdits(ordering, edge, skillKeys(combo)),
+        },
+      }
+    );
+  });
+}
+
+/**
+ * Edits that remove one edge from every constraint declaring it.
+ *
+ * A constraint is split where the edge occurs; other edges between the same
+ * two steps are kept as separate constraints. Skills named by their name
+ * are rewritten to their node key.
+ */
+function removeEdgeEdits(
+  ordering: string[],
+  edge: DependencyEdge,
+  keys: Map<string, string>
+): DocumentEdit[] {
+  const edits: DocumentEdit[] = [];
+
+  // Edit later constraints first so earlier indices stay valid
+  for (const index of [...edge.constraints].sort((a, b) => b - a)) {
+    const steps = parseOrderingSteps(ordering[index]).map((step) =>
+      step.map((name) => keys.get(name) ?? name)
+    );
+    const pieces = splitAtEdge(steps, edge).map(formatOrderingSteps);
+    const path = ['constraints', 'ordering', index];
+
+    if (pieces.length === 0) {
+      edits.push({ op: 'remove', path });
+      continue;
+    }
+    edits.push({ op: 'replace', path, value: pieces[0] });
+    pieces.slice(1).forEach((piece, i) => {
+      edits.push({ op: 'add', path: ['constraints', 'ordering', index + 1 + i], value: piece });
+    });
+  }
+
+  return edits;
+}
+
+/**
+ * Splits ordering steps into constraints that declare the same edges minus one.
+ */
+function splitAtEdge(steps: string[][], edge: DependencyEdge): string[][][] {
+  const pieces: string[][][] = [];
+  let current: string[][] = [steps[0]];
+
+  for (let i = 0; i < steps.length - 1; i++) {
+    const [a, b] = [steps[i], steps[i + 1]];
+    if (!a.includes(edge.from) || !b.includes(edge.to)) {
+      current.push(b);
+      continue;
+    }
+
+    pieces.push(current);
+    const otherFrom = a.filter((name) => name !== edge.from);
+    const otherTo = b.filter((name) => name !== edge.to);
+    if (otherFrom.length > 0) pieces.push([otherFrom, b]);
+    if (otherTo.length > 0) pieces.push([[edge.from], otherTo]);
+    current = [b];
+  }
+  pieces.push(current);
+
+  return pieces.filter((piece) => piece.length > 1);
+}
+
+/**
+ * Checks `constraints.data_flow` against the skills and the ordering.
+ *
+ * Reports unknown skills (GRF004), entries running against the ordering
+ * constraints or the composition (GRF005) and inputs mapped from more than
+ * one upstream output (GRF006).
+ */
+function dataFlowDiagnostics(
+  graph: DependencyGraph,
+  combo: ComboSkillDefinition
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const dataFlow = combo.constraints?.data_flow ?? [];
+  const ordering = combo.constraints?.ordering ?? [];
+  const keys = skillKeys(combo);
+
+  dataFlow.forEach((flow, index) => {
+    for (const field of ['from', 'to'] as const) {
+      const name = flow[field];
+      if (keys.has(name)) {
+        continue;
+      }
+
+      const path = ['constraints', 'data_flow', index, field];
+      const suggestion = suggestSkill(name, combo, keys);
+      diagnostics.push(
+        createDiagnostic(
+          'GRF004',
+          'error',
+          unknownSkillMessage('Unknown skill in data flow', name, combo, suggestion),
+          path,
+          suggestion
+            ? {
+                fix: {
+                  description: `Replace '${name}' with '${suggestion}'`,
+                  edits: [{ op: 'replace', path, value: suggestion }],
+                },
+              }
+            : {}
+        )
+      );
+    }
+  });
+
+  for (const { dataFlow: index, path } of graph.contradictions) {
+    const flow = dataFlow[index];
+    const constraints = [...new Set(path.flatMap((edge) => edge.constraints))].sort((a, b) => a - b);
+    const composed = path.filter((edge) => edge.constraints.length === 0);
+    const order =
+      composed.length === 0
+        ? 'the ordering'
+        : composed.length === path.length
+          ? 'the composition'
+          : 'the ordering and composition';
+    diagnostics.push(
+      createDiagnostic(
+        'GRF005',
+        'error',
+        `Data flow from ${flow.from} to ${flow.to} contradicts ${order}, which runs ` +
+          `${[path[0].from, ...path.map((edge) => edge.to)].join(' -> ')}`,
+        ['constraints', 'data_flow', index],
+        {
+          related: [
+            ...constraints.map((constraint) => ({
+              message: `'${ordering[constraint]}' is declared here`,
+              path: ['constraints', 'ordering', constraint],
+            })),
+            ...composed.map((edge) => ({
+              message: `The composition runs ${edge.to} after ${edge.from} here`,
+              path: edge.composition[0],
+            })),
+          ],
+        }
+      )
+    );
+  }
+
+  // First source of each input field, keyed by consumer and input field
+  const sources = new Map<string, { from: string; output: string; index: number }>();
+  dataFlow.forEach((flow, index) => {
+    for (const [output, input] of Object.entries(flow.mapping ?? {})) {
+      const key = `${flow.to}\0${input}`;
+      const first = sources.get(key);
+      if (!first) {
+        sources.set(key, { from: flow.from, output, index });
+        continue;
+      }
+      if (first.from === flow.from && first.output === output) {
+        continue;
+      }
+
+      diagnostics.push(
+        createDiagnostic(
+          'GRF006',
+          'warning',
+          `Input '${input}' of ${flow.to} is mapped from both ${first.from}.${first.output} ` +
+            `and ${flow.from}.${output}`,
+          ['constraints', 'data_flow', index, 'mapping', output],
+          {
+            related: [
+              {
+                message: `'${input}' is first mapped from ${first.from}.${first.output} here`,
+                path: ['constraints', 'data_flow', first.index, 'mapping', first.output],
+              },
+            ],
+          }
+        )
+      );
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Suggests the node key closest to an unknown name. Names shared by several
+ * aliased skills get no suggestion, since any one of them could be meant.
+ */
+function suggestSkill(
+  name: string,
+  combo: ComboSkillDefinition,
+  keys: Map<string, string>
+): string | undefined {
+  const shared = combo.skills.filter((s) => s.name === name).length > 1;
+  return shared ? undefined : closestMatch(name, keys.keys());
+}
+
+/**
+ * Message for a name that is not a node key, explaining names shared by
+ * several aliased skills.
+ */
+function unknownSkillMessage(
+  prefix: string,
+  name: string,
+  combo: ComboSkillDefinition,
+  suggestion: string | undefined
+): string {
+  const sharing = combo.skills.filter((s) => s.name === name && s.alias);
+  if (sharing.length > 1) {
+    return `${prefix}: ${name} is the name of several skills; use one of their aliases (${sharing
+      .map((s) => `'${s.alias}'`)
+      .join(', ')})`;
+  }
+  return suggestion ? `${prefix}: ${name} (did you mean '${suggestion}'?)` : `${prefix}: ${name}`;
+}
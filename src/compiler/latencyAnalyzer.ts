@@ -0,0 +1,289 @@
+/**
+ * Latency budget analysis for combo skills.
+ *
+ * This module handles:
+ * - Estimating each skill's worst-case runtime from its `timeout`, `retry`
+ *   and `rate-limit` modifiers
+ * - Finding the critical path: the chain of dependent skills with the
+ *   largest total worst case
+ * - Checking the critical path against the combo-level `timeout`
+ *
+ * Worst case of one skill:
+ *   runs    = 1 + retry attempts
+ *   runtime = runs × timeout
+ *           + backoff delays between runs
+ *           + floor((runs - 1) / requests) × rate-limit window
+ *
+ * Design notes:
+ * - A skill without a `timeout` has no worst case. It is listed as
+ *   unbounded and counts as zero on the critical path, so the estimate is
+ *   a lower bound on the true worst case whenever skills are unbounded
+ * - Each skill's `retry` and `rate-limit` come from its effective
+ *   modifiers, so combo-level ones count as they are inherited; combo-level
+ *   `timeout` is the budget for the whole combo, not a per-skill default
+ * - With both a combo-level and a skill-level rate limit, the longer wait
+ *   counts
+ * - `retry` defaults follow docs/modifiers.md: 3 attempts, exponential
+ *   backoff, 1s initial delay. `attempts` counts retries after the first run
+ * - Once a skill's own runs use up the rate limit, the next run waits a
+ *   full window; a rate limit without a window adds no wait
+ * - Exceeding the budget is a warning: timeouts are upper bounds, and
+ *   typical runs finish well within them
+ */
+
+import type {
+  ComboSkillDefinition,
+  Diagnostic,
+  EffectiveModifier,
+  ModifierType,
+} from '../types.js';
+import { createDiagnostic, splitDiagnostics } from './diagnostics.js';
+import { formatDuration, getDuration, parseDuration } from './durations.js';
+import { resolveDependencyGraph, type DependencyGraph } from './graphResolver.js';
+import { comboWideModifiers, effectiveModifiers, RETRY_DEFAULTS } from './modifierValidator.js';
+
+/**
+ * Worst-case runtime estimate of one skill.
+ */
+export interface SkillLatency {
+  /**
+   * Skill key (alias or name).
+   */
+  skill: string;
+
+  /**
+   * Number of runs, counting retries.
+   */
+  runs: number;
+
+  /**
+   * The skill's timeout, if it has one.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Total backoff delay between runs.
+   */
+  retryDelayMs: number;
+
+  /**
+   * Total time spent waiting for the rate limiter.
+   */
+  rateLimitWaitMs: number;
+
+  /**
+   * Worst-case runtime; undefined if the skill has no timeout.
+   */
+  worstCaseMs?: number;
+}
+
+/**
+ * Result of latency analysis.
+ */
+export interface LatencyAnalysis {
+  valid: boolean;
+
+  /**
+   * Estimate for each skill, in declaration order.
+   */
+  skills: SkillLatency[];
+
+  /**
+   * Skills on the critical path, in execution order. Empty when the graph
+   * has cycles.
+   */
+  criticalPath: string[];
+
+  /**
+   * Worst-case runtime of the critical path.
+   */
+  worstCaseMs: number;
+
+  /**
+   * The combo-level timeout, if any.
+   */
+  budgetMs?: number;
+
+  /**
+   * Skills without a timeout, whose worst case is unknown.
+   */
+  unbounded: string[];
+
+  errors: Diagnostic[];
+  warnings: Diagnostic[];
+}
+
+/**
+ * Estimates worst-case runtimes and checks them against the combo's
+ * `timeout`.
+ *
+ * @param combo - The combo skill definition, with parameters bound
+ * @param graph - Resolved graph; resolved from the combo if omitted
+ * @returns Latency analysis with any budget warnings
+ */
+export function analyzeLatency(
+  combo: ComboSkillDefinition,
+  graph: DependencyGraph = resolveDependencyGraph(combo)
+): LatencyAnalysis {
+  const diagnostics: Diagnostic[] = [];
+
+  const stacks = combo.skills.map((_, index) => effectiveModifiers(combo, index));
+  const skills = combo.skills.map((skill, index) =>
+    estimateSkill(skill.alias ?? skill.name, stacks[index])
+  );
+  const byKey = new Map(skills.map((s) => [s.skill, s]));
+
+  const comboTimeout = findModifier(comboWideModifiers(combo), 'timeout');
+  const budgetMs = comboTimeout ? getDuration(comboTimeout, 'duration') : undefined;
+
+  // Longest path through the DAG, weighted by each skill's worst case
+  const finish = new Map<string, number>();
+  const previous = new Map<string, string>();
+  for (const key of graph.executionOrder) {
+    let start = 0;
+    let via: string | undefined;
+    for (const dependency of graph.nodes.get(key)?.dependencies ?? []) {
+      const end = finish.get(dependency) ?? 0;
+      if (via === undefined || end > start) {
+        start = end;
+        via = dependency;
+      }
+    }
+    if (via !== undefined) {
+      previous.set(key, via);
+    }
+    finish.set(key, start + (byKey.get(key)?.worstCaseMs ?? 0));
+  }
+
+  // On ties, prefer the later skill so the path runs through to the end
+  let last: string | undefined;
+  for (const key of graph.executionOrder) {
+    if (last === undefined || finish.get(key)! >= finish.get(last)!) {
+      last = key;
+    }
+  }
+
+  const criticalPath: string[] = [];
+  for (let key = last; key !== undefined; key = previous.get(key)) {
+    criticalPath.unshift(key);
+  }
+  const worstCaseMs = last !== undefined ? finish.get(last)! : 0;
+
+  if (comboTimeout && budgetMs !== undefined && worstCaseMs > budgetMs) {
+    const on = criticalPath.map((key) => byKey.get(key)!).filter((s) => s.worstCaseMs);
+    diagnostics.push(
+      createDiagnostic(
+        'LAT001',
+        'warning',
+        `Worst-case runtime of the critical path (${criticalPath.join(' -> ')}) is ` +
+          `${formatDuration(worstCaseMs)}, over the combo timeout of ${formatDuration(budgetMs)}`,
+        comboTimeout.path,
+        {
+          related: on.map((s) => {
+            const index = combo.skills.findIndex((ref) => (ref.alias ?? ref.name) === s.skill);
+            return {
+              message: `'${s.skill}' takes up to ${formatDuration(s.worstCaseMs!)} (${describeEstimate(s)})`,
+              path: findModifier(stacks[index], 'timeout')!.path,
+            };
+          }),
+        }
+      )
+    );
+  }
+
+  const { errors, warnings } = splitDiagnostics(diagnostics);
+
+  return {
+    valid: errors.length === 0,
+    skills,
+    criticalPath,
+    worstCaseMs,
+    budgetMs,
+    unbounded: skills.filter((s) => s.worstCaseMs === undefined).map((s) => s.skill),
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Estimates the worst-case runtime of one skill from its effective
+ * modifiers.
+ */
+function estimateSkill(key: string, modifiers: EffectiveModifier[]): SkillLatency {
+  const timeout = findModifier(modifiers, 'timeout');
+  const timeoutMs = timeout ? getDuration(timeout, 'duration') : undefined;
+
+  // Backoff delays between runs
+  const retry = findModifier(modifiers, 'retry');
+  let runs = 1;
+  let retryDelayMs = 0;
+  if (retry) {
+    const attempts = numberOr(retry.config.attempts, RETRY_DEFAULTS.attempts);
+    const backoff = retry.config.backoff ?? RETRY_DEFAULTS.backoff;
+    const delay = parseDuration(retry.config.delay ?? RETRY_DEFAULTS.delay);
+    runs += attempts;
+    for (let retryNumber = 1; retryNumber <= attempts; retryNumber++) {
+      retryDelayMs +=
+        backoff === 'fixed'
+          ? delay
+          : backoff === 'linear'
+            ? delay * retryNumber
+            : delay * 2 ** (retryNumber - 1);
+    }
+  }
+
+  // A full window each time the skill's runs use up a limit
+  let rateLimitWaitMs = 0;
+  for (const rateLimit of modifiers.filter((m) => m.type === 'rate-limit')) {
+    const requests = numberOr(rateLimit.config.requests, 0);
+    const window = getDuration(rateLimit, 'window');
+    if (requests > 0 && window !== undefined) {
+      rateLimitWaitMs = Math.max(rateLimitWaitMs, Math.floor((runs - 1) / requests) * window);
+    }
+  }
+
+  return {
+    skill: key,
+    runs,
+    timeoutMs,
+    retryDelayMs,
+    rateLimitWaitMs,
+    worstCaseMs:
+      timeoutMs === undefined ? undefined : runs * timeoutMs + retryDelayMs + rateLimitWaitMs,
+  };
+}
+
+/**
+ * Describes how a skill's worst case adds up, e.g. `4 × 10s + 7s backoff`.
+ */
+function describeEstimate(estimate: SkillLatency): string {
+  const parts = [
+    estimate.runs > 1
+      ? `${estimate.runs} × ${formatDuration(estimate.timeoutMs!)}`
+      : formatDuration(estimate.timeoutMs!),
+  ];
+  if (estimate.retryDelayMs > 0) {
+    parts.push(`${formatDuration(estimate.retryDelayMs)} backoff`);
+  }
+  if (estimate.rateLimitWaitMs > 0) {
+    parts.push(`${formatDuration(estimate.rateLimitWaitMs)} rate limiting`);
+  }
+  return parts.join(' + ');
+}
+
+/**
+ * Finds the first modifier of a type in a list.
+ */
+function findModifier(
+  modifiers: EffectiveModifier[],
+  type: ModifierType
+): EffectiveModifier | undefined {
+  return modifiers.find((m) => m.type === type);
+}
+
+/**
+ * Returns a value if it is a finite number, else the default.
+ */
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
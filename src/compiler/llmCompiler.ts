@@ -8,12 +8,33 @@
  * - Compilation is non-deterministic by design
  * - The LLM receives the combo definition + resolved skill metadata
  * - Output is a SKILL.md-compatible artifact
+ * - The prompt and every output file are redacted (see secrets.ts), so a
+ *   credential in the definition or in registry metadata never reaches the
+ *   LLM or the artifact
  *
  * TODO: Integrate actual LLM provider (OpenAI, Anthropic, etc.)
  */
 
-import type { ResolvedComboSkill, CompiledSkill, Modifier } from '../types.js';
-import { validateModifiers, type ModifierValidationResult } from './modifierValidator.js';
+import type { FallbackLink, ResolvedComboSkill, ResolvedSkill, CompiledSkill } from '../types.js';
+import { resolveDependencyGraph } from './graphResolver.js';
+import { renderMermaid } from './graphRenderer.js';
+import { analyzeLatency } from './latencyAnalyzer.js';
+import { buildExecutionPlan } from './planBuilder.js';
+import { describeComposition, parseComposition } from './compositionParser.js';
+import { collectFallbacks, validateFallbacks } from './fallbackResolver.js';
+import {
+  comboWideModifiers,
+  effectiveModifiers,
+  formatModifier,
+  parseModifier,
+  validateModifiers,
+  validateSkillModifiers,
+  type ModifierValidationResult,
+} from './modifierValidator.js';
+import { describeDiagnostic } from './diagnostics.js';
+import { getModifierDefinition } from './modifierRegistry.js';
+import { redactJson, redactSecrets, validateSecrets } from './secrets.js';
+import { resolveTier } from './tierResolver.js';
 
 /**
  * Options for LLM-driven compilation.
@@ -45,6 +66,12 @@ export interface LLMCompilerOptions {
    * Default: true
    */
   validateModifiers?: boolean;
+
+  /**
+   * Whether to embed a Mermaid diagram of the dependency graph in SKILL.md.
+   * Default: false
+   */
+  diagram?: boolean;
 }
 
 /**
@@ -72,28 +99,37 @@ export async function compileWithLLM(
   combo: ResolvedComboSkill,
   options: LLMCompilerOptions = {}
 ): Promise<CompiledSkill> {
-  const { verbose = false, validateModifiers: shouldValidate = true } = options;
+  const { verbose = false, validateModifiers: shouldValidate = true, diagram = false } = options;
 
   if (verbose) {
     console.log(`[llmCompiler] Starting synthesis for: ${combo.name}`);
     console.log(`[llmCompiler] Using ${combo.resolvedSkills.length} skills`);
   }
 
-  // Validate modifiers if present
-  if (shouldValidate && combo.modifiers && combo.modifiers.length > 0) {
-    const validation = validateModifiers(combo.modifiers, combo.primitives);
-    if (!validation.valid) {
-      throw new Error(
-        `Modifier validation failed:\n${validation.errors.join('\n')}`
-      );
+  // Validate combo-level and per-skill modifiers
+  if (shouldValidate) {
+    const validations = [validateSkillModifiers(combo)];
+    if (combo.modifiers && combo.modifiers.length > 0) {
+      validations.unshift(validateModifiers(combo.modifiers, combo.primitives));
     }
-    if (verbose && validation.warnings.length > 0) {
-      console.log(`[llmCompiler] Modifier warnings:\n${validation.warnings.join('\n')}`);
+    const checks = [validateFallbacks(combo), validateSecrets(combo)];
+    const errors = [...validations, ...checks].flatMap((v) => v.errors);
+    const warnings = [...validations, ...checks].flatMap((v) => v.warnings);
+    if (errors.length > 0) {
+      throw new Error(`Modifier validation failed:\n${errors.map(describeDiagnostic).join('\n')}`);
+    }
+    if (verbose && warnings.length > 0) {
+      console.log(
+        `[llmCompiler] Modifier warnings:\n${warnings.map(describeDiagnostic).join('\n')}`
+      );
     }
   }
 
   // Build the synthesis prompt
-  const prompt = buildSynthesisPrompt(combo);
+  const redactions: string[] = [];
+  const redactedPrompt = redactSecrets(buildSynthesisPrompt(combo));
+  const prompt = redactedPrompt.text;
+  redactions.push(...redactedPrompt.redactions);
 
   if (verbose) {
     console.log(`[llmCompiler] Generated prompt (${prompt.length} chars)`);
@@ -113,22 +149,37 @@ export async function compileWithLLM(
   // const skillContent = parseLLMResponse(response);
 
   // For now, generate a placeholder skill
-  const skillContent = generatePlaceholderSkill(combo);
+  const skillContent = redactSecrets(generatePlaceholderSkill(combo, { diagram }));
+  redactions.push(...skillContent.redactions);
 
   if (verbose) {
     console.log(`[llmCompiler] Synthesis complete`);
   }
 
+  const plan = redactJson(buildExecutionPlan(combo));
+  const metadata = redactJson({
+    generatedAt: new Date().toISOString(),
+    sourceCombo: combo.name,
+    compilationMode: 'llm-placeholder',
+    skills: combo.resolvedSkills.map((s) => s.name),
+    tier: combo.tier ?? resolveTier(combo, combo.resolvedSkills).tier,
+    latency: latencyMetadata(combo),
+  });
+  redactions.push(...plan.redactions, ...metadata.redactions);
+
+  if (verbose && redactions.length > 0) {
+    console.log(
+      `[llmCompiler] Redacted ${redactions.length} credential-looking value(s): ${[...new Set(redactions)].join(', ')}`
+    );
+  }
+
   return {
     name: combo.name,
     version: combo.version ?? '0.1.0',
-    skillMd: skillContent,
-    metadata: {
-      generatedAt: new Date().toISOString(),
-      sourceCombo: combo.name,
-      compilationMode: 'llm-placeholder',
-      skills: combo.resolvedSkills.map((s) => s.name),
-    },
+    skillMd: skillContent.text,
+    plan: plan.value,
+    metadata: metadata.value,
+    redactions,
   };
 }
 
@@ -144,32 +195,72 @@ export async function compileWithLLM(
  */
 function buildSynthesisPrompt(combo: ResolvedComboSkill): string {
   const skillsSection = combo.resolvedSkills
-    .map(
-      (skill) => `
+    .map((skill, index) => {
+      const modifiers = effectiveModifiers(combo, index).map(
+        (m) => `${formatModifier(m.raw)}${m.source === 'combo' ? ' (from combo)' : ''}`
+      );
+      return `
 ### ${skill.name}
 ${skill.description ?? 'No description available'}
 Source: ${skill.from}
-`
-    )
+${modifiers.length > 0 ? `Modifiers: ${modifiers.join(', ')}\n` : ''}`;
+    })
     .join('\n');
 
+  const stagesSection = combo.constraints?.ordering
+    ? `Execution stages (skills within a stage can run concurrently):
+${formatStages(combo).map((stage, i) => `${i + 1}. ${stage.join(', ')}`).join('\n')}
+`
+    : '';
+
+  const control = formatComposition(combo);
+  const compositionSection = control
+    ? `
+## Control Flow
+
+The skills run as follows (\`\${name}\` refers to an earlier step's named output):
+${control.join('\n')}
+`
+    : '';
+
   const constraintsSection = combo.constraints
     ? `
 ## Constraints
 
 Ordering: ${combo.constraints.ordering?.join(', ') ?? 'None specified'}
-Assumptions: ${combo.constraints.assumptions?.join('; ') ?? 'None specified'}
+${stagesSection}Assumptions: ${combo.constraints.assumptions?.join('; ') ?? 'None specified'}
 `
     : '';
 
-  const modifiersSection = combo.modifiers && combo.modifiers.length > 0
+  const fallbacks = formatFallbacks(combo);
+  const fallbacksSection = fallbacks.length > 0
     ? `
-## Modifiers
+## Fallbacks
+
+When a skill fails, its fallback runs in its place:
+${fallbacks.join('\n')}
+`
+    : '';
 
-The following cross-cutting behaviors are applied:
-${combo.modifiers.map((m) => `- ${formatModifier(m)}`).join('\n')}
+  const comboModifiers = comboWideModifiers(combo);
+  const modifierTypes = describeModifierTypes(combo);
+  const modifiersSection = modifierTypes.length > 0
+    ? `
+## Modifiers
+${
+  comboModifiers.length > 0
+    ? `
+The following behaviors apply to the combo as a whole:
+${comboModifiers.map((m) => `- ${formatModifier(m.raw)}`).join('\n')}
+`
+    : ''
+}
+Modifier types used by this combo:
+${modifierTypes.join('\n')}
 
-These modifiers affect how the skill executes (e.g., retry on failure, caching, timeouts).
+Each component skill lists its own modifiers, including those inherited from
+the combo. These modifiers affect how the skill executes (e.g., retry on
+failure, caching, timeouts).
 `
     : '';
 
@@ -188,9 +279,9 @@ ${combo.intent}
 ## Component Skills
 
 ${skillsSection}
-
+${compositionSection}
 ${constraintsSection}
-${modifiersSection}
+${modifiersSection}${fallbacksSection}
 
 ## Instructions
 
@@ -209,44 +300,149 @@ Output the SKILL.md content directly, starting with a heading.
 }
 
 /**
- * Format a modifier for display in prompts or documentation.
+ * Describes each modifier type the combo or its skills use, from the
+ * modifier registry, as Markdown list items.
+ */
+function describeModifierTypes(combo: ResolvedComboSkill): string[] {
+  const types = new Set<string>();
+  for (const modifier of [combo.modifiers ?? [], ...combo.skills.map((s) => s.modifiers ?? [])].flat()) {
+    try {
+      types.add(parseModifier(modifier).type);
+    } catch {
+      continue;
+    }
+  }
+  return [...types].map((type) => `- ${type}: ${getModifierDefinition(type)?.description ?? type}`);
+}
+
+/**
+ * Display names by skill key: the skill's name, or `alias (name)` when
+ * several skills share the name, so each stays recognizable.
+ */
+function displayNames(combo: ResolvedComboSkill): Map<string, string> {
+  return new Map(
+    combo.skills.map((s) => {
+      const shared = combo.skills.filter((other) => other.name === s.name).length > 1;
+      return [s.alias ?? s.name, shared && s.alias ? `${s.alias} (${s.name})` : s.name];
+    })
+  );
+}
+
+/**
+ * The combo's fallbacks as Markdown list items, with display names in
+ * place of aliases. Targets outside the combo show where they resolve from.
  */
-function formatModifier(modifier: Modifier): string {
-  if (typeof modifier === 'string') {
-    return modifier;
+function formatFallbacks(combo: ResolvedComboSkill): string[] {
+  const names = displayNames(combo);
+  const links: Array<FallbackLink & { resolved?: ResolvedSkill }> =
+    combo.fallbacks ?? collectFallbacks(combo);
+  return links.map((link) => {
+    const replaced = link.skill === undefined ? 'The whole skill' : names.get(link.skill) ?? link.skill;
+    if (link.declared) {
+      return `- ${replaced} → ${names.get(link.target) ?? link.target}`;
+    }
+    const source = link.resolved ? ` (${link.resolved.from}@${link.resolved.version})` : '';
+    return `- ${replaced} → ${link.target}${source}`;
+  });
+}
+
+/**
+ * Latency estimate for metadata, if any skill has a timeout.
+ */
+function latencyMetadata(combo: ResolvedComboSkill): CompiledSkill['metadata']['latency'] {
+  const analysis = analyzeLatency(combo);
+  if (analysis.skills.every((s) => s.worstCaseMs === undefined)) {
+    return undefined;
   }
-  const keys = Object.keys(modifier);
-  if (keys.length === 0) return '(empty modifier)';
-  const type = keys[0];
-  const config = (modifier as Record<string, unknown>)[type];
-  if (!config || Object.keys(config as object).length === 0) {
-    return type;
+  const { criticalPath, worstCaseMs, budgetMs, unbounded } = analysis;
+  return { criticalPath, worstCaseMs, budgetMs, unbounded };
+}
+
+/**
+ * The composition as Markdown list items with display names in place of
+ * aliases, or undefined if the combo has no valid composition.
+ */
+function formatComposition(combo: ResolvedComboSkill): string[] | undefined {
+  const { ast } = parseComposition(combo);
+  if (!ast) {
+    return undefined;
   }
-  return `${type}: ${JSON.stringify(config)}`;
+  return describeComposition(ast, displayNames(combo));
+}
+
+/**
+ * Execution stages with display names in place of aliases.
+ */
+function formatStages(combo: ResolvedComboSkill): string[][] {
+  const stages = combo.stages ?? resolveDependencyGraph(combo).stages;
+  const names = displayNames(combo);
+  return stages.map((stage) => stage.map((key) => names.get(key) ?? key));
 }
 
 /**
  * Generates a placeholder skill when LLM is not available.
  * This is used for testing and development.
  */
-function generatePlaceholderSkill(combo: ResolvedComboSkill): string {
-  const skillsList = combo.resolvedSkills.map((s) => `- ${s.name}`).join('\n');
+function generatePlaceholderSkill(
+  combo: ResolvedComboSkill,
+  options: { diagram: boolean }
+): string {
+  const skillsList = combo.resolvedSkills
+    .map((s, index) => {
+      const modifiers = effectiveModifiers(combo, index).map((m) => formatModifier(m.raw));
+      return modifiers.length > 0 ? `- ${s.name} (${modifiers.join(', ')})` : `- ${s.name}`;
+    })
+    .join('\n');
 
-  const orderingSection = combo.constraints?.ordering
+  // An explicit composition describes the control flow better than stages
+  const control = formatComposition(combo);
+  const stages = formatStages(combo);
+  const orderingSection = control
     ? `
 ## Workflow
 
-The skill executes in this order:
-${combo.constraints.ordering.map((o) => `1. ${o}`).join('\n')}
+${control.join('\n')}
+`
+    : combo.constraints?.ordering
+      ? `
+## Workflow
+
+The skill executes in ${stages.length} stage${stages.length === 1 ? '' : 's'}:
+${stages
+  .map((stage, i) =>
+    stage.length === 1 ? `${i + 1}. ${stage[0]}` : `${i + 1}. In parallel: ${stage.join(', ')}`
+  )
+  .join('\n')}
+`
+      : '';
+
+  const diagramSection = options.diagram
+    ? `
+## Dependency Graph
+
+\`\`\`mermaid
+${renderMermaid(combo).trimEnd()}
+\`\`\`
 `
     : '';
 
-  const modifiersSection = combo.modifiers && combo.modifiers.length > 0
+  const comboModifiers = comboWideModifiers(combo);
+  const modifiersSection = comboModifiers.length > 0
     ? `
 ## Behavior Modifiers
 
-The following cross-cutting behaviors are applied to this skill:
-${combo.modifiers.map((m) => `- ${formatModifier(m)}`).join('\n')}
+The following behaviors apply to this skill as a whole:
+${comboModifiers.map((m) => `- ${formatModifier(m.raw)}`).join('\n')}
+`
+    : '';
+
+  const fallbacks = formatFallbacks(combo);
+  const fallbacksSection = fallbacks.length > 0
+    ? `
+## Fallbacks
+
+If a step fails, its fallback runs in its place:
+${fallbacks.join('\n')}
 `
     : '';
 
@@ -263,8 +459,8 @@ a higher-level goal.
 
 ${skillsList}
 
-${orderingSection}
-${modifiersSection}
+${orderingSection}${diagramSection}
+${modifiersSection}${fallbacksSection}
 
 ## Intent
 
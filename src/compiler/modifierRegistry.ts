@@ -0,0 +1,266 @@
+/**
+ * Registry of modifier types.
+ *
+ * This module handles:
+ * - The definitions of the built-in modifiers: prefix parsing, primitive
+ *   compatibility, conflicts, stacking warnings, inheritance and durations
+ * - Registering custom modifiers (e.g. `audit`, `pii-redact`) at runtime
+ *   or from a config file (see loader/config.ts)
+ * - Looking up definitions for validation, prompt formatting and schema
+ *   generation
+ *
+ * Design notes:
+ * - Every consumer reads from the registry, so a registered modifier is
+ *   parsed, validated, inherited and described exactly like a built-in one
+ * - Built-in modifiers cannot be replaced or removed; their JSON Schema
+ *   lives in schemas/combo-skill.schema.json, and generated schemas add the
+ *   registered ones (see schemaValidator.ts)
+ * - Conflicts are stored on one definition and apply in both directions;
+ *   they may name types that are registered later
+ * - The registry is process-wide. Tools that register modifiers for one
+ *   run can remove them again with unregisterModifier
+ */
+
+import type {
+  ModifierDefinition,
+  ModifierInheritance,
+  ModifierType,
+  SkillPrimitive,
+} from '../types.js';
+
+/**
+ * Valid modifier type names.
+ */
+const MODIFIER_TYPE_REGEX = /^[a-z][a-z0-9-]*$/;
+
+/**
+ * Primitives a compatibility row may name.
+ */
+const PRIMITIVES: SkillPrimitive[] = ['read', 'write', 'search', 'execute', 'transform'];
+
+/**
+ * Parses a whole number for prefix values such as `retry:3`.
+ */
+function parseCount(value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error('expected a whole number');
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * The built-in modifiers, in documentation order.
+ */
+export const BUILTIN_MODIFIERS: ModifierDefinition[] = [
+  {
+    type: 'retry',
+    description: 'Retry on failure with configurable backoff strategy',
+    parsePrefix: (value) => ({ attempts: parseCount(value) }),
+    compatibility: { read: true, write: true, search: true, execute: true, transform: false },
+    durations: { delay: ['ms', 's', 'm'] },
+  },
+  {
+    type: 'cache',
+    description: 'Cache results to avoid redundant operations',
+    parsePrefix: (value) => ({ ttl: value }),
+    compatibility: { read: true, write: false, search: true, execute: false, transform: true },
+    conflicts: { 'dry-run': 'Caching simulated results may cause confusion' },
+    stackingWarnings: { retry: 'Cache before retry may cache failures; prefer retry → cache' },
+    durations: { ttl: ['s', 'm', 'h', 'd'] },
+  },
+  {
+    type: 'timeout',
+    description: 'Fail after a specified duration',
+    parsePrefix: (value) => ({ duration: value }),
+    inheritance: 'combo',
+    durations: { duration: ['ms', 's', 'm'] },
+  },
+  {
+    type: 'auth',
+    description: 'Inject authentication context',
+    parsePrefix: (value) => ({ type: value }),
+    compatibility: { read: true, write: true, search: true, execute: true, transform: false },
+  },
+  {
+    type: 'rate-limit',
+    description: 'Throttle execution frequency',
+    parsePrefix: (value) => {
+      // Format: "10", "10/m" or "100/h"
+      const rateMatch = value.match(/^(\d+)(?:\/([smh]))?$/);
+      if (!rateMatch) {
+        throw new Error('expected REQUESTS or REQUESTS/WINDOW with a window of s, m or h');
+      }
+      return rateMatch[2]
+        ? { requests: parseCount(rateMatch[1]), window: `1${rateMatch[2]}` }
+        : { requests: parseCount(rateMatch[1]) };
+    },
+    compatibility: { read: true, write: true, search: true, execute: true, transform: false },
+    inheritance: 'stack',
+    durations: { window: ['s', 'm', 'h'] },
+  },
+  {
+    type: 'log',
+    description: 'Emit structured logs for debugging and observability',
+    parsePrefix: (value) => ({ level: value }),
+  },
+  {
+    type: 'fallback',
+    description: 'Use an alternative on failure',
+    parsePrefix: (value) => ({ skill: value }),
+    compatibility: { read: true, write: 'warn', search: true, execute: 'warn', transform: true },
+    inheritance: 'combo',
+  },
+  {
+    type: 'batch',
+    description: 'Group multiple invocations for efficiency',
+    parsePrefix: (value) => ({ size: parseCount(value) }),
+    compatibility: { read: true, write: true, search: true, execute: false, transform: true },
+    conflicts: { parallel: 'Use one or the other for collection processing' },
+    durations: { delay: ['ms', 's'] },
+  },
+  {
+    type: 'parallel',
+    description: 'Execute concurrently (for batch operations)',
+    parsePrefix: (value) => ({ concurrency: parseCount(value) }),
+    compatibility: { read: true, write: 'warn', search: true, execute: 'warn', transform: true },
+  },
+  {
+    type: 'dry-run',
+    description: 'Simulate execution without side effects',
+    parsePrefix: (value) => {
+      if (value !== 'true' && value !== 'false') {
+        throw new Error("expected 'true' or 'false'");
+      }
+      return { log: value === 'true' };
+    },
+    compatibility: { read: false, write: true, search: false, execute: true, transform: false },
+    stackingWarnings: { cache: 'Dry-run before cache may cache simulated results' },
+  },
+];
+
+/**
+ * Registered modifiers by type, built-in ones first.
+ */
+const registry = new Map<ModifierType, ModifierDefinition>(
+  BUILTIN_MODIFIERS.map((definition) => [definition.type, definition])
+);
+
+/**
+ * Registers a custom modifier type.
+ *
+ * @param definition - The modifier definition
+ * @throws Error if the type is malformed or already registered, or the
+ *   compatibility row names an unknown primitive
+ */
+export function registerModifier(definition: ModifierDefinition): void {
+  const { type } = definition;
+  if (!MODIFIER_TYPE_REGEX.test(type)) {
+    throw new Error(
+      `Invalid modifier type '${type}': use lowercase letters, digits and hyphens, starting with a letter`
+    );
+  }
+  if (registry.has(type)) {
+    throw new Error(
+      isBuiltinModifier(type)
+        ? `Modifier '${type}' is built in and cannot be redefined`
+        : `Modifier '${type}' is already registered`
+    );
+  }
+  for (const primitive of Object.keys(definition.compatibility ?? {})) {
+    if (!PRIMITIVES.includes(primitive as SkillPrimitive)) {
+      throw new Error(
+        `Modifier '${type}' names unknown primitive '${primitive}' in its compatibility row`
+      );
+    }
+  }
+
+  registry.set(type, definition);
+}
+
+/**
+ * Removes a custom modifier type.
+ *
+ * @param type - The modifier type
+ * @returns Whether the type was registered
+ * @throws Error for a built-in modifier
+ */
+export function unregisterModifier(type: ModifierType): boolean {
+  if (isBuiltinModifier(type)) {
+    throw new Error(`Modifier '${type}' is built in and cannot be removed`);
+  }
+  return registry.delete(type);
+}
+
+/**
+ * Looks up the definition of a modifier type.
+ *
+ * @param type - The modifier type
+ * @returns The definition, or undefined for an unknown type
+ */
+export function getModifierDefinition(type: ModifierType): ModifierDefinition | undefined {
+  return registry.get(type);
+}
+
+/**
+ * All registered modifier types, built-in ones first.
+ */
+export function getModifierTypes(): ModifierType[] {
+  return [...registry.keys()];
+}
+
+/**
+ * All registered modifier definitions, built-in ones first.
+ */
+export function getModifierDefinitions(): ModifierDefinition[] {
+  return [...registry.values()];
+}
+
+/**
+ * Checks whether a modifier type is built in.
+ */
+export function isBuiltinModifier(type: ModifierType): boolean {
+  return BUILTIN_MODIFIERS.some((definition) => definition.type === type);
+}
+
+/**
+ * Compatibility of a modifier type with a primitive.
+ *
+ * @returns true, 'warn' or false; unknown types and primitives left out of
+ *   the definition are compatible
+ */
+export function getModifierCompatibility(
+  type: ModifierType,
+  primitive: SkillPrimitive
+): boolean | 'warn' {
+  return registry.get(type)?.compatibility?.[primitive] ?? true;
+}
+
+/**
+ * How a combo-level modifier of a type applies to the combo's skills.
+ */
+export function getModifierInheritance(type: ModifierType): ModifierInheritance {
+  return registry.get(type)?.inheritance ?? 'override';
+}
+
+/**
+ * Pairs of modifier types that cannot be used together, with the reason.
+ */
+export function getModifierConflicts(): Array<[ModifierType, ModifierType, string]> {
+  return getModifierDefinitions().flatMap((definition) =>
+    Object.entries(definition.conflicts ?? {}).map(
+      ([other, reason]): [ModifierType, ModifierType, string] => [definition.type, other, reason]
+    )
+  );
+}
+
+/**
+ * Pairs of modifier types that should not be stacked in this order, with
+ * the warning.
+ */
+export function getStackingWarnings(): Array<[ModifierType, ModifierType, string]> {
+  return getModifierDefinitions().flatMap((definition) =>
+    Object.entries(definition.stackingWarnings ?? {}).map(
+      ([next, message]): [ModifierType, ModifierType, string] => [definition.type, next, message]
+    )
+  );
+}
@@ -2,90 +2,137 @@
  * Modifier validation for combo skills.
  *
  * This module handles:
- * - Parsing prefix and structured modifiers
+ * - Parsing prefix and structured modifiers, checking their values against
+ *   the same ranges and enums as the JSON Schema
  * - Validating modifier/primitive compatibility
  * - Detecting incompatible modifier combinations
  * - Analyzing modifier stacking order
+ * - Suggesting the prefix form for structured modifiers in mixed-style lists
+ * - Merging combo-level and skill-level modifiers into each skill's
+ *   effective modifiers, and validating them per skill
+ * - Checking that timeouts, retries, caches and rate limits agree across
+ *   the combo and skill levels
  */
 
 import type {
+  BuiltinModifierType,
+  ComboSkillDefinition,
+  Diagnostic,
+  DocumentPath,
+  EffectiveModifier,
   Modifier,
+  ModifierDefinition,
+  ModifierInheritance,
   ModifierType,
   ParsedModifier,
   SkillPrimitive,
   StructuredModifier,
 } from '../types.js';
+import { closestMatch, createDiagnostic, splitDiagnostics } from './diagnostics.js';
+import { checkDurations, formatDuration, getDuration } from './durations.js';
+import { validateModifierConfig } from './schemaValidator.js';
+import {
+  BUILTIN_MODIFIERS,
+  getModifierCompatibility,
+  getModifierConflicts,
+  getModifierDefinition,
+  getModifierInheritance,
+  getModifierTypes,
+  getStackingWarnings,
+} from './modifierRegistry.js';
 
 /**
- * All valid modifier types.
+ * The built-in modifier types.
+ *
+ * @deprecated Use getModifierTypes(), which includes registered modifiers.
  */
-export const MODIFIER_TYPES: ModifierType[] = [
-  'retry',
-  'cache',
-  'timeout',
-  'auth',
-  'rate-limit',
-  'log',
-  'fallback',
-  'batch',
-  'parallel',
-  'dry-run',
-];
+export const MODIFIER_TYPES = BUILTIN_MODIFIERS.map((d) => d.type) as BuiltinModifierType[];
 
 /**
- * Modifier/Primitive compatibility matrix.
+ * Compatibility of the built-in modifiers with each primitive: true, 'warn'
+ * (compatible with caveats) or false.
  *
- * - true: fully compatible
- * - 'warn': compatible with caveats
- * - false: incompatible
+ * @deprecated Use getModifierCompatibility(), which includes registered
+ *   modifiers.
  */
-export const MODIFIER_PRIMITIVE_COMPATIBILITY: Record<
-  ModifierType,
-  Record<SkillPrimitive, boolean | 'warn'>
-> = {
-  retry: { read: true, write: true, search: true, execute: true, transform: false },
-  cache: { read: true, write: false, search: true, execute: false, transform: true },
-  timeout: { read: true, write: true, search: true, execute: true, transform: true },
-  auth: { read: true, write: true, search: true, execute: true, transform: false },
-  'rate-limit': { read: true, write: true, search: true, execute: true, transform: false },
-  log: { read: true, write: true, search: true, execute: true, transform: true },
-  fallback: { read: true, write: 'warn', search: true, execute: 'warn', transform: true },
-  batch: { read: true, write: true, search: true, execute: false, transform: true },
-  parallel: { read: true, write: 'warn', search: true, execute: 'warn', transform: true },
-  'dry-run': { read: false, write: true, search: false, execute: true, transform: false },
-};
+export const MODIFIER_PRIMITIVE_COMPATIBILITY = Object.fromEntries(
+  BUILTIN_MODIFIERS.map((d) => [
+    d.type,
+    Object.fromEntries(
+      (['read', 'write', 'search', 'execute', 'transform'] as const).map((primitive) => [
+        primitive,
+        d.compatibility?.[primitive] ?? true,
+      ])
+    ),
+  ])
+) as Record<BuiltinModifierType, Record<SkillPrimitive, boolean | 'warn'>>;
 
 /**
- * Incompatible modifier pairs that should not be used together.
+ * How each built-in combo-level modifier applies to the combo's skills.
+ *
+ * @deprecated Use getModifierInheritance(), which includes registered
+ *   modifiers.
  */
-export const INCOMPATIBLE_MODIFIER_PAIRS: Array<[ModifierType, ModifierType, string]> = [
-  ['cache', 'dry-run', 'Caching simulated results may cause confusion'],
-  ['batch', 'parallel', 'Use one or the other for collection processing'],
-];
+export const MODIFIER_INHERITANCE = Object.fromEntries(
+  BUILTIN_MODIFIERS.map((d) => [d.type, d.inheritance ?? 'override'])
+) as Record<BuiltinModifierType, ModifierInheritance>;
 
 /**
- * Stacking order warnings.
- * [first, second, warning message]
+ * Defaults for `retry` settings left out, from docs/modifiers.md.
+ * `attempts` counts retries after the first run.
  */
-export const STACKING_ORDER_WARNINGS: Array<[ModifierType, ModifierType, string]> = [
-  ['cache', 'retry', 'Cache before retry may cache failures; prefer retry → cache'],
-  ['dry-run', 'cache', 'Dry-run before cache may cache simulated results'],
-];
+export const RETRY_DEFAULTS = {
+  attempts: 3,
+  backoff: 'exponential',
+  delay: '1s',
+} as const;
 
 /**
- * Regex for parsing prefix modifiers.
+ * Regex for parsing prefix modifiers into type and value.
  */
-const PREFIX_MODIFIER_REGEX =
-  /^(retry|cache|timeout|auth|rate-limit|log|fallback|batch|parallel|dry-run)(?::(.+))?$/;
+const PREFIX_MODIFIER_REGEX = /^([a-z][a-z0-9-]*)(?::(.+))?$/;
+
+/**
+ * Raised when a modifier has a value that is malformed or out of range.
+ */
+export class ModifierValueError extends Error {
+  /**
+   * @param message - What is wrong with the value
+   * @param path - Path of the value within the modifier, e.g.
+   *   ['retry', 'attempts']; empty for a prefix modifier
+   */
+  constructor(
+    message: string,
+    public readonly path: DocumentPath
+  ) {
+    super(message);
+    this.name = 'ModifierValueError';
+  }
+}
 
 /**
  * Parse a modifier (prefix or structured) into a normalized form.
+ *
+ * @throws ModifierValueError if a value is malformed or out of range;
+ *   Error if the modifier cannot be parsed at all
  */
 export function parseModifier(modifier: Modifier): ParsedModifier {
-  if (typeof modifier === 'string') {
-    return parsePrefixModifier(modifier);
+  const parsed =
+    typeof modifier === 'string' ? parsePrefixModifier(modifier) : parseStructuredModifier(modifier);
+
+  const [issue] = [
+    ...checkDurations(parsed.type, parsed.config),
+    ...validateModifierConfig(parsed.type, parsed.config),
+  ];
+  if (issue) {
+    if (typeof modifier === 'string') {
+      throw new ModifierValueError(`Invalid modifier '${modifier}': ${issue.message}`, []);
+    }
+    const field = [parsed.type, ...issue.path];
+    throw new ModifierValueError(`${field.join('.')}: ${issue.message}`, field);
   }
-  return parseStructuredModifier(modifier);
+
+  return parsed;
 }
 
 /**
@@ -97,59 +144,30 @@ function parsePrefixModifier(modifier: string): ParsedModifier {
     throw new Error(`Invalid modifier format: ${modifier}`);
   }
 
-  const type = match[1] as ModifierType;
+  const type = match[1];
   const value = match[2];
+  const definition = requireDefinition(type);
 
-  const config = parsePrefixValue(type, value);
-
-  return { type, config, raw: modifier };
-}
-
-/**
- * Parse the value portion of a prefix modifier.
- */
-function parsePrefixValue(type: ModifierType, value: string | undefined): Record<string, unknown> {
-  if (!value) {
-    return {};
-  }
-
-  switch (type) {
-    case 'retry':
-      return { attempts: parseInt(value, 10) };
-    case 'cache':
-      return { ttl: value };
-    case 'timeout':
-      return { duration: value };
-    case 'auth':
-      return { type: value };
-    case 'rate-limit': {
-      // Format: "10/m" or "100/h"
-      const rateMatch = value.match(/^(\d+)\/([smh])$/);
-      if (rateMatch) {
-        return { requests: parseInt(rateMatch[1], 10), window: `1${rateMatch[2]}` };
-      }
-      return { requests: parseInt(value, 10) };
+  let config: Record<string, unknown> = {};
+  if (value) {
+    if (!definition.parsePrefix) {
+      throw new ModifierValueError(`Modifier '${type}' takes no value in prefix form: ${modifier}`, []);
+    }
+    try {
+      config = definition.parsePrefix(value);
+    } catch (e) {
+      throw new ModifierValueError(`Invalid modifier '${modifier}': ${(e as Error).message}`, []);
     }
-    case 'log':
-      return { level: value };
-    case 'fallback':
-      return { skill: value };
-    case 'batch':
-      return { size: parseInt(value, 10) };
-    case 'parallel':
-      return { concurrency: parseInt(value, 10) };
-    case 'dry-run':
-      return { log: value !== 'false' };
-    default:
-      return {};
   }
+
+  return { type, config, raw: modifier };
 }
 
 /**
  * Parse a structured modifier object.
  */
 function parseStructuredModifier(modifier: StructuredModifier): ParsedModifier {
-  const keys = Object.keys(modifier) as ModifierType[];
+  const keys = Object.keys(modifier);
   if (keys.length === 0) {
     throw new Error('Structured modifier must have at least one key');
   }
@@ -158,65 +176,197 @@ function parseStructuredModifier(modifier: StructuredModifier): ParsedModifier {
   }
 
   const type = keys[0];
-  const config = (modifier as Record<ModifierType, Record<string, unknown>>)[type] ?? {};
+  requireDefinition(type);
+  const config = (modifier[type] ?? {}) as Record<string, unknown>;
 
   return { type, config, raw: modifier };
 }
 
+/**
+ * Looks up a modifier definition, suggesting a known type for typos.
+ */
+function requireDefinition(type: ModifierType): ModifierDefinition {
+  const definition = getModifierDefinition(type);
+  if (!definition) {
+    const suggestion = closestMatch(type, getModifierTypes());
+    throw new Error(
+      suggestion
+        ? `Unknown modifier '${type}' (did you mean '${suggestion}'?)`
+        : `Unknown modifier '${type}'`
+    );
+  }
+  return definition;
+}
+
+/**
+ * Convert a parsed modifier to the equivalent prefix-style string.
+ *
+ * @returns The prefix form, or undefined if the configuration cannot be
+ *   expressed as a prefix modifier without losing information
+ */
+export function toPrefixModifier(modifier: ParsedModifier): string | undefined {
+  const { type, config } = modifier;
+  const candidates: string[] = [type];
+
+  for (const value of Object.values(config)) {
+    if (['string', 'number', 'boolean'].includes(typeof value)) {
+      candidates.push(`${type}:${value}`);
+    }
+  }
+  if (type === 'rate-limit' && typeof config.window === 'string') {
+    candidates.push(`${type}:${config.requests}/${config.window.replace(/^1(?=[smh]$)/, '')}`);
+  }
+
+  const expected = canonicalJson(config);
+  return candidates.find((candidate) => {
+    try {
+      return canonicalJson(parsePrefixModifier(candidate).config) === expected;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Format a modifier for display in prompts, documentation or diagrams.
+ */
+export function formatModifier(modifier: Modifier): string {
+  if (typeof modifier === 'string') {
+    return modifier;
+  }
+  const keys = Object.keys(modifier);
+  if (keys.length === 0) return '(empty modifier)';
+  const type = keys[0];
+  const config = (modifier as Record<string, unknown>)[type];
+  if (!config || Object.keys(config as object).length === 0) {
+    return type;
+  }
+  return `${type}: ${JSON.stringify(config)}`;
+}
+
+/**
+ * JSON with sorted keys, for comparing modifier configurations.
+ */
+function canonicalJson(value: Record<string, unknown>): string {
+  return JSON.stringify(value, Object.keys(value).sort());
+}
+
 /**
  * Validation result for modifiers.
  */
 export interface ModifierValidationResult {
   valid: boolean;
-  errors: string[];
-  warnings: string[];
+  errors: Diagnostic[];
+  warnings: Diagnostic[];
   parsed: ParsedModifier[];
 }
 
 /**
  * Validate an array of modifiers against primitives.
+ *
+ * @param modifiers - Modifiers to validate
+ * @param primitives - Primitives of the skill the modifiers apply to
+ * @param path - Document path of the modifiers array, used in diagnostics
  */
 export function validateModifiers(
   modifiers: Modifier[],
-  primitives?: SkillPrimitive[]
+  primitives?: SkillPrimitive[],
+  path: DocumentPath = ['modifiers']
 ): ModifierValidationResult {
-  const errors: string[] = [];
-  const warnings: string[] = [];
+  const diagnostics: Diagnostic[] = [];
   const parsed: ParsedModifier[] = [];
+  const indices: number[] = [];
 
   // Parse all modifiers
-  for (const modifier of modifiers) {
+  modifiers.forEach((modifier, index) => {
     try {
-      const p = parseModifier(modifier);
-      parsed.push(p);
+      parsed.push(parseModifier(modifier));
+      indices.push(index);
     } catch (e) {
-      errors.push((e as Error).message);
+      const at = e instanceof ModifierValueError ? e.path : [];
+      diagnostics.push(
+        createDiagnostic('MOD005', 'error', (e as Error).message, [...path, index, ...at])
+      );
     }
-  }
+  });
 
   // Check primitive compatibility
   if (primitives && primitives.length > 0) {
-    for (const p of parsed) {
+    parsed.forEach((p, i) => {
+      const at = [...path, indices[i]];
       for (const primitive of primitives) {
-        const compat = MODIFIER_PRIMITIVE_COMPATIBILITY[p.type][primitive];
+        const compat = getModifierCompatibility(p.type, primitive);
         if (compat === false) {
-          errors.push(
-            `Modifier '${p.type}' is incompatible with primitive '${primitive}'`
+          diagnostics.push(
+            createDiagnostic(
+              'MOD001',
+              'error',
+              `Modifier '${p.type}' is incompatible with primitive '${primitive}'`,
+              at,
+              {
+                fix: {
+                  description: `Remove the '${p.type}' modifier`,
+                  edits: [{ op: 'remove', path: at }],
+                },
+              }
+            )
           );
         } else if (compat === 'warn') {
-          warnings.push(
-            `Modifier '${p.type}' with primitive '${primitive}' may have unexpected behavior`
+          diagnostics.push(
+            createDiagnostic(
+              'MOD002',
+              'warning',
+              `Modifier '${p.type}' with primitive '${primitive}' may have unexpected behavior`,
+              at
+            )
           );
         }
       }
-    }
+    });
+  }
+
+  // In lists that mix styles, suggest the prefix form where it is equivalent
+  if (modifiers.some((modifier) => typeof modifier === 'string')) {
+    parsed.forEach((p, i) => {
+      const prefix = typeof p.raw === 'string' ? undefined : toPrefixModifier(p);
+      if (prefix) {
+        const at = [...path, indices[i]];
+        diagnostics.push(
+          createDiagnostic(
+            'MOD006',
+            'warning',
+            `Structured modifier '${p.type}' can be written as '${prefix}', like the other modifiers in this list`,
+            at,
+            {
+              fix: {
+                description: `Rewrite as '${prefix}'`,
+                edits: [{ op: 'replace', path: at, value: prefix }],
+              },
+            }
+          )
+        );
+      }
+    });
   }
 
-  // Check incompatible pairs
+  // Check incompatible pairs, reported at the later of the two modifiers
   const types = parsed.map((p) => p.type);
-  for (const [a, b, message] of INCOMPATIBLE_MODIFIER_PAIRS) {
+  for (const [a, b, message] of getModifierConflicts()) {
     if (types.includes(a) && types.includes(b)) {
-      errors.push(`Incompatible modifiers: '${a}' and '${b}' - ${message}`);
+      const [first, second] = [types.indexOf(a), types.indexOf(b)].sort((x, y) => x - y);
+      diagnostics.push(
+        createDiagnostic(
+          'MOD003',
+          'error',
+          `Incompatible modifiers: '${a}' and '${b}' - ${message}`,
+          [...path, indices[second]],
+          {
+            related: [
+              { message: `'${types[first]}' is declared here`, path: [...path, indices[first]] },
+            ],
+          }
+        )
+      );
     }
   }
 
@@ -224,13 +374,33 @@ export function validateModifiers(
   for (let i = 0; i < parsed.length - 1; i++) {
     const current = parsed[i].type;
     const next = parsed[i + 1].type;
-    for (const [first, second, message] of STACKING_ORDER_WARNINGS) {
+    for (const [first, second, message] of getStackingWarnings()) {
       if (current === first && next === second) {
-        warnings.push(`Stacking order: ${message}`);
+        diagnostics.push(
+          createDiagnostic(
+            'MOD004',
+            'warning',
+            `Stacking order: ${message}`,
+            [...path, indices[i + 1]],
+            {
+              related: [
+                { message: `'${current}' is declared here`, path: [...path, indices[i]] },
+              ],
+              fix: {
+                description: `Move '${next}' before '${current}'`,
+                edits: [
+                  { op: 'move', from: [...path, indices[i + 1]], path: [...path, indices[i]] },
+                ],
+              },
+            }
+          )
+        );
       }
     }
   }
 
+  const { errors, warnings } = splitDiagnostics(diagnostics);
+
   return {
     valid: errors.length === 0,
     errors,
@@ -250,7 +420,7 @@ export function isModifierCompatible(
   let compatible = true;
 
   for (const primitive of primitives) {
-    const compat = MODIFIER_PRIMITIVE_COMPATIBILITY[modifierType][primitive];
+    const compat = getModifierCompatibility(modifierType, primitive);
     if (compat === false) {
       compatible = false;
     } else if (compat === 'warn') {
@@ -265,8 +435,251 @@ export function isModifierCompatible(
  * Get all compatible modifiers for a set of primitives.
  */
 export function getCompatibleModifiers(primitives: SkillPrimitive[]): ModifierType[] {
-  return MODIFIER_TYPES.filter((modifier) => {
+  return getModifierTypes().filter((modifier) => {
     const { compatible } = isModifierCompatible(modifier, primitives);
     return compatible;
   });
 }
+
+/**
+ * Merges combo-level modifiers into a skill's own.
+ *
+ * The skill's modifiers come first, followed by the combo-level modifiers
+ * it inherits according to each type's `inheritance`. A skill with
+ * `modifiers: []` inherits none. Modifiers that cannot be parsed are left
+ * out; validation reports them.
+ *
+ * @param combo - The combo skill definition
+ * @param index - Index of the skill in `combo.skills`
+ * @returns The skill's effective modifiers
+ */
+export function effectiveModifiers(
+  combo: ComboSkillDefinition,
+  index: number
+): EffectiveModifier[] {
+  const skill = combo.skills[index];
+  const own = parseEffective(skill.modifiers, 'skill', ['skills', index, 'modifiers']);
+  if (skill.modifiers?.length === 0) {
+    return own;
+  }
+
+  const types = new Set(own.map((m) => m.type));
+  const inherited = parseEffective(combo.modifiers, 'combo', ['modifiers']).filter((m) => {
+    const inheritance = getModifierInheritance(m.type);
+    return inheritance === 'stack' || (inheritance === 'override' && !types.has(m.type));
+  });
+
+  return [...own, ...inherited];
+}
+
+/**
+ * Combo-level modifiers that apply to the combo as a whole and are not
+ * inherited by its skills.
+ *
+ * @param combo - The combo skill definition
+ * @returns The parsed combo-wide modifiers
+ */
+export function comboWideModifiers(combo: ComboSkillDefinition): EffectiveModifier[] {
+  return parseEffective(combo.modifiers, 'combo', ['modifiers']).filter(
+    (m) => getModifierInheritance(m.type) === 'combo'
+  );
+}
+
+/**
+ * Parses a modifier list with the path of each modifier, skipping
+ * modifiers that cannot be parsed.
+ */
+function parseEffective(
+  modifiers: Modifier[] | undefined,
+  source: EffectiveModifier['source'],
+  path: DocumentPath
+): EffectiveModifier[] {
+  const parsed: EffectiveModifier[] = [];
+  (modifiers ?? []).forEach((modifier, index) => {
+    try {
+      parsed.push({ ...parseModifier(modifier), source, path: [...path, index] });
+    } catch {
+      return;
+    }
+  });
+  return parsed;
+}
+
+/**
+ * Validates each skill's own modifiers against the skill's primitives, and
+ * its effective modifiers for pairs that cannot be used together.
+ *
+ * Combo-level modifiers are validated separately, against the combo's
+ * primitives.
+ *
+ * @param combo - The combo skill definition
+ * @returns Validation result; `parsed` holds every skill's parsed modifiers
+ */
+export function validateSkillModifiers(combo: ComboSkillDefinition): ModifierValidationResult {
+  const diagnostics: Diagnostic[] = [];
+  const parsed: ParsedModifier[] = [];
+
+  combo.skills.forEach((skill, index) => {
+    if (skill.modifiers && skill.modifiers.length > 0) {
+      const validation = validateModifiers(skill.modifiers, skill.primitives, [
+        'skills',
+        index,
+        'modifiers',
+      ]);
+      diagnostics.push(...validation.errors, ...validation.warnings);
+      parsed.push(...validation.parsed);
+    }
+
+    // Pairs within the skill's own list were reported above
+    const effective = effectiveModifiers(combo, index);
+    const key = skill.alias ?? skill.name;
+    for (const [a, b, message] of getModifierConflicts()) {
+      for (const [own, inherited] of [[a, b], [b, a]]) {
+        const declared = effective.find((m) => m.type === own && m.source === 'skill');
+        const from = effective.find((m) => m.type === inherited && m.source === 'combo');
+        if (declared && from) {
+          diagnostics.push(
+            createDiagnostic(
+              'MOD003',
+              'error',
+              `Incompatible modifiers on '${key}': '${own}' and inherited '${inherited}' - ${message}`,
+              declared.path,
+              {
+                related: [{ message: `'${inherited}' is declared on the combo here`, path: from.path }],
+              }
+            )
+          );
+        }
+      }
+    }
+  });
+
+  const { errors, warnings } = splitDiagnostics(diagnostics);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    parsed,
+  };
+}
+
+/**
+ * Result of the modifier consistency checks.
+ */
+export interface ModifierConsistencyResult {
+  valid: boolean;
+  errors: Diagnostic[];
+  warnings: Diagnostic[];
+}
+
+/**
+ * Checks that each skill's effective modifiers agree with each other and
+ * with the combo's timeout:
+ * - MOD007: the skill's timeout is longer than the combo's
+ * - MOD008: the skill's runs (first run plus retries) × its timeout exceed
+ *   the combo's timeout
+ * - MOD009: a cache TTL is shorter than a rate-limit window, so cached
+ *   results expire before the limit resets
+ *
+ * @param combo - The combo skill definition, with parameters bound
+ * @returns Validation result; findings are warnings
+ */
+export function validateModifierConsistency(combo: ComboSkillDefinition): ModifierConsistencyResult {
+  const diagnostics: Diagnostic[] = [];
+  const comboTimeout = comboWideModifiers(combo).find((m) => m.type === 'timeout');
+  const budgetMs = comboTimeout ? getDuration(comboTimeout, 'duration') : undefined;
+  const reported = new Set<string>();
+
+  combo.skills.forEach((skill, index) => {
+    const key = skill.alias ?? skill.name;
+    const modifiers = effectiveModifiers(combo, index);
+
+    const timeout = modifiers.find((m) => m.type === 'timeout');
+    const timeoutMs = timeout ? getDuration(timeout, 'duration') : undefined;
+    if (comboTimeout && budgetMs !== undefined && timeout && timeoutMs !== undefined) {
+      const budget = comboTimeout.config.duration as string;
+      const retry = modifiers.find((m) => m.type === 'retry');
+      const attempts =
+        typeof retry?.config.attempts === 'number' ? retry.config.attempts : RETRY_DEFAULTS.attempts;
+      const runs = retry ? 1 + attempts : 1;
+
+      if (timeoutMs > budgetMs) {
+        diagnostics.push(
+          createDiagnostic(
+            'MOD007',
+            'warning',
+            `Timeout of '${key}' (${formatDuration(timeoutMs)}) is longer than the combo timeout of ${formatDuration(budgetMs)}`,
+            timeout.path,
+            {
+              related: [{ message: 'The combo timeout is declared here', path: comboTimeout.path }],
+              fix: {
+                description: `Lower the timeout of '${key}' to ${budget}`,
+                edits: [
+                  {
+                    op: 'replace',
+                    path: timeout.path,
+                    value:
+                      typeof timeout.raw === 'string'
+                        ? `timeout:${budget}`
+                        : { timeout: { ...timeout.config, duration: budget } },
+                  },
+                ],
+              },
+            }
+          )
+        );
+      } else if (runs * timeoutMs > budgetMs) {
+        diagnostics.push(
+          createDiagnostic(
+            'MOD008',
+            'warning',
+            `'${key}' can run ${runs} times × ${formatDuration(timeoutMs)} = ${formatDuration(runs * timeoutMs)} ` +
+              `with retries, over the combo timeout of ${formatDuration(budgetMs)}`,
+            retry!.path,
+            {
+              related: [
+                { message: `The timeout of '${key}' is declared here`, path: timeout.path },
+                { message: 'The combo timeout is declared here', path: comboTimeout.path },
+              ],
+            }
+          )
+        );
+      }
+    }
+
+    // Inherited modifiers are reported once, not for every skill
+    for (const cache of modifiers.filter((m) => m.type === 'cache')) {
+      const ttlMs = getDuration(cache, 'ttl');
+      for (const rateLimit of modifiers.filter((m) => m.type === 'rate-limit')) {
+        const windowMs = getDuration(rateLimit, 'window');
+        const id = JSON.stringify([cache.path, rateLimit.path]);
+        if (ttlMs === undefined || windowMs === undefined || ttlMs >= windowMs || reported.has(id)) {
+          continue;
+        }
+        reported.add(id);
+        diagnostics.push(
+          createDiagnostic(
+            'MOD009',
+            'warning',
+            `${cache.source === 'combo' ? 'Cache TTL' : `Cache TTL of '${key}'`} (${formatDuration(ttlMs)}) ` +
+              `is shorter than the rate-limit window (${formatDuration(windowMs)}); ` +
+              `cached results expire before the limit resets`,
+            cache.path,
+            {
+              related: [{ message: 'The rate limit is declared here', path: rateLimit.path }],
+            }
+          )
+        );
+      }
+    }
+  });
+
+  const { errors, warnings } = splitDiagnostics(diagnostics);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
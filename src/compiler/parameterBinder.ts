@@ -0,0 +1,234 @@
+/**
+ * Parameter binding for combo skills.
+ *
+ * This module handles:
+ * - Resolving parameter values from supplied values and defaults
+ * - Type-checking and coercing values against declared parameter types
+ * - Interpolating `${params.<name>}` references in string values
+ *
+ * Design notes:
+ * - Binding runs before schema validation, so a templated modifier like
+ *   `timeout:${params.timeout}` is validated with its bound value
+ * - A string that is exactly one reference (e.g. `attempts: ${params.n}` in a
+ *   structured modifier) is replaced by the typed value; references embedded
+ *   in longer strings are substituted as text
+ * - Supplied string values (e.g. from `--param key=value`) are coerced to
+ *   number or boolean; other values must already have the declared type
+ * - Other `${...}` placeholders (e.g. `${input.url}` in cache keys) are left alone
+ */
+
+import type {
+  ComboParameter,
+  ComboSkillDefinition,
+  Diagnostic,
+  DocumentPath,
+  ParameterValue,
+} from '../types.js';
+import { createDiagnostic, splitDiagnostics } from './diagnostics.js';
+
+/**
+ * Matches a `${params.<name>}` reference.
+ */
+const PARAM_REFERENCE_REGEX = /\$\{params\.([A-Za-z_][A-Za-z0-9_-]*)\}/g;
+
+/**
+ * Result of binding parameters.
+ */
+export interface ParameterBindingResult {
+  valid: boolean;
+
+  /**
+   * The combo with references substituted and the `parameters` block removed.
+   */
+  combo: ComboSkillDefinition;
+
+  /**
+   * The resolved value of each bound parameter.
+   */
+  values: Record<string, ParameterValue>;
+
+  errors: Diagnostic[];
+  warnings: Diagnostic[];
+}
+
+/**
+ * Binds parameter values into a combo skill definition.
+ *
+ * @param combo - The combo skill definition
+ * @param supplied - Parameter values, e.g. from CompileOptions or the CLI
+ * @returns Bound combo, resolved values and any diagnostics
+ */
+export function bindParameters(
+  combo: ComboSkillDefinition,
+  supplied: Record<string, ParameterValue> = {}
+): ParameterBindingResult {
+  const diagnostics: Diagnostic[] = [];
+  const values: Record<string, ParameterValue> = {};
+  const declared = combo.parameters ?? [];
+
+  declared.forEach((param, index) => {
+    if (param.default !== undefined && !hasType(param.default, param.type)) {
+      diagnostics.push(
+        createDiagnostic(
+          'PAR002',
+          'error',
+          `Default for parameter '${param.name}' must be a ${param.type}`,
+          ['parameters', index, 'default']
+        )
+      );
+    }
+
+    if (Object.prototype.hasOwnProperty.call(supplied, param.name)) {
+      const value = coerce(supplied[param.name], param);
+      if (value === undefined) {
+        diagnostics.push(
+          createDiagnostic(
+            'PAR002',
+            'error',
+            `Parameter '${param.name}' expects a ${param.type}, got '${supplied[param.name]}'`,
+            ['parameters', index]
+          )
+        );
+      } else {
+        values[param.name] = value;
+      }
+    } else if (param.default !== undefined) {
+      values[param.name] = param.default;
+    } else {
+      diagnostics.push(
+        createDiagnostic(
+          'PAR001',
+          'error',
+          `Parameter '${param.name}' has no value and no default`,
+          ['parameters', index]
+        )
+      );
+    }
+  });
+
+  const declaredNames = new Set(declared.map((p) => p.name));
+  for (const name of Object.keys(supplied)) {
+    if (!declaredNames.has(name)) {
+      diagnostics.push(
+        createDiagnostic(
+          'PAR004',
+          'warning',
+          `Value supplied for undeclared parameter '${name}'`
+        )
+      );
+    }
+  }
+
+  const { parameters: _parameters, ...rest } = combo;
+  const bound = interpolate(rest, [], (name, path) => {
+    if (!declaredNames.has(name)) {
+      diagnostics.push(
+        createDiagnostic('PAR003', 'error', `Reference to undeclared parameter '${name}'`, path)
+      );
+    }
+    return values[name];
+  }) as ComboSkillDefinition;
+
+  const { errors, warnings } = splitDiagnostics(diagnostics);
+
+  return {
+    valid: errors.length === 0,
+    combo: bound,
+    values,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Parses `key=value` pairs (as given to `--param`) into parameter values.
+ *
+ * Values stay strings; they are coerced to the declared type during binding.
+ */
+export function parseParameterAssignments(assignments: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const assignment of assignments) {
+    const index = assignment.indexOf('=');
+    if (index <= 0) {
+      throw new Error(`Invalid parameter assignment '${assignment}', expected key=value`);
+    }
+    values[assignment.slice(0, index)] = assignment.slice(index + 1);
+  }
+  return values;
+}
+
+/**
+ * Recursively substitutes parameter references in string values.
+ */
+function interpolate(
+  value: unknown,
+  path: DocumentPath,
+  lookup: (name: string, path: DocumentPath) => ParameterValue | undefined
+): unknown {
+  if (typeof value === 'string') {
+    return interpolateString(value, path, lookup);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolate(item, [...path, index], lookup));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolate(item, [...path, key], lookup)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Substitutes parameter references in a single string.
+ */
+function interpolateString(
+  value: string,
+  path: DocumentPath,
+  lookup: (name: string, path: DocumentPath) => ParameterValue | undefined
+): unknown {
+  const whole = value.match(/^\$\{params\.([A-Za-z_][A-Za-z0-9_-]*)\}$/);
+  if (whole) {
+    return lookup(whole[1], path) ?? value;
+  }
+
+  return value.replace(PARAM_REFERENCE_REGEX, (reference, name: string) => {
+    const bound = lookup(name, path);
+    return bound === undefined ? reference : String(bound);
+  });
+}
+
+/**
+ * Coerces a supplied value to the declared parameter type.
+ *
+ * @returns The coerced value, or undefined if it does not fit the type
+ */
+function coerce(value: ParameterValue, param: ComboParameter): ParameterValue | undefined {
+  if (hasType(value, param.type)) {
+    return value;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  switch (param.type) {
+    case 'number': {
+      const n = Number(value);
+      return value.trim() !== '' && Number.isFinite(n) ? n : undefined;
+    }
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Checks a value against a parameter type.
+ */
+function hasType(value: ParameterValue, type: ComboParameter['type']): boolean {
+  if (type === 'number') {
+    return typeof value === 'number' && Number.isFinite(value);
+  }
+  return typeof value === type;
+}
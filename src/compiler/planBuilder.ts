@@ -0,0 +1,188 @@
+/**
+ * Execution plans for compiled combo skills.
+ *
+ * This module handles:
+ * - Building the plan.json written next to SKILL.md: resolved skill
+ *   identities, execution stages, data bindings and effective modifiers
+ *   per step
+ *
+ * Design notes:
+ * - The plan is the machine-readable counterpart of SKILL.md, so other
+ *   runtimes can execute a combo without reading markdown. Its shape is
+ *   described by schemas/execution-plan.schema.json
+ * - PLAN_VERSION is bumped on any change existing runtimes could
+ *   misread; adding optional fields does not bump it
+ * - Step modifiers are merged by effectiveModifiers; combo-level
+ *   modifiers that are not inherited (such as the combo's `timeout`) go in
+ *   the plan's own `modifiers`
+ * - Fallbacks that name a skill are listed with their resolved targets, so
+ *   a runtime can fetch fallback skills that are not steps of the plan
+ * - Steps follow the dependency graph, which includes the composition's
+ *   order. Bindings come from `data_flow` entries, then from the
+ *   composition's `${name}` references and pipes
+ */
+
+import type {
+  ComboSkillDefinition,
+  EffectiveModifier,
+  ExecutionPlan,
+  FallbackLink,
+  PlanBinding,
+  PlanFallback,
+  PlanModifier,
+  PlanSkill,
+  ResolvedComboSkill,
+  ResolvedSkill,
+} from '../types.js';
+import {
+  compositionBindings,
+  parseComposition,
+  type CompositionBinding,
+} from './compositionParser.js';
+import { collectFallbacks } from './fallbackResolver.js';
+import { resolveDependencyGraph, skillKeys, type DependencyGraph } from './graphResolver.js';
+import { comboWideModifiers, effectiveModifiers } from './modifierValidator.js';
+import { resolveTier } from './tierResolver.js';
+import { getComboReference } from '../registry/skillsResolver.js';
+
+/**
+ * Current version of the plan format.
+ */
+export const PLAN_VERSION = 1;
+
+/**
+ * Builds the execution plan of a resolved combo skill.
+ *
+ * @param combo - Resolved combo skill
+ * @param graph - Resolved graph; resolved from the combo if omitted
+ * @returns The execution plan
+ */
+export function buildExecutionPlan(
+  combo: ResolvedComboSkill,
+  graph: DependencyGraph = resolveDependencyGraph(combo)
+): ExecutionPlan {
+  const skills: PlanSkill[] = combo.skills.map((ref, index) => {
+    const resolved = combo.resolvedSkills[index];
+    const comboPath = getComboReference(ref);
+    return {
+      key: ref.alias ?? ref.name,
+      name: ref.name,
+      from: resolved?.from ?? ref.from ?? 'skills.sh',
+      version: resolved?.version ?? ref.version ?? 'latest',
+      resolved: resolved?.resolved ?? false,
+      ...(comboPath ? { combo: comboPath } : {}),
+      primitives: ref.primitives ?? resolved?.primitives ?? [],
+    };
+  });
+
+  const stages = combo.stages ?? graph.stages;
+  const stageOf = new Map(stages.flatMap((stage, index) => stage.map((key) => [key, index])));
+  const indices = new Map(combo.skills.map((ref, index) => [ref.alias ?? ref.name, index]));
+  const { ast } = parseComposition(combo);
+  const composed = ast ? compositionBindings(ast) : [];
+
+  const steps = graph.executionOrder.map((key) => {
+    const index = indices.get(key);
+    return {
+      skill: key,
+      stage: stageOf.get(key) ?? 0,
+      dependsOn: [...(graph.nodes.get(key)?.dependencies ?? [])],
+      bindings: bindingsFor(key, combo, composed),
+      modifiers:
+        index === undefined ? [] : effectiveModifiers(combo, index).map(toPlanModifier),
+    };
+  });
+
+  const fallbacks = fallbacksFor(combo, skills);
+
+  return {
+    planVersion: PLAN_VERSION,
+    name: combo.name,
+    version: combo.version ?? '0.1.0',
+    description: combo.description,
+    tier: combo.tier ?? resolveTier(combo, combo.resolvedSkills).tier,
+    skills,
+    stages: stages.map((stage) => [...stage]),
+    steps,
+    modifiers: comboWideModifiers(combo).map(toPlanModifier),
+    ...(fallbacks.length > 0 ? { fallbacks } : {}),
+    ...(combo.composition ? { composition: combo.composition } : {}),
+  };
+}
+
+/**
+ * Lists the combo's fallbacks with their targets' identities. Targets that
+ * were not resolved (no `fallbacks` on the combo) keep the registry they
+ * would be resolved from.
+ */
+function fallbacksFor(combo: ResolvedComboSkill, skills: PlanSkill[]): PlanFallback[] {
+  const links: Array<FallbackLink & { resolved?: ResolvedSkill }> =
+    combo.fallbacks ?? collectFallbacks(combo);
+  return links.map((link) => {
+    const target: Pick<ResolvedSkill, 'from' | 'version' | 'resolved'> | undefined =
+      link.resolved ?? skills.find((skill) => link.declared && skill.key === link.target);
+    return {
+      ...(link.skill !== undefined ? { skill: link.skill } : {}),
+      target: link.target,
+      declared: link.declared,
+      from: target?.from ?? 'skills.sh',
+      version: target?.version ?? 'latest',
+      resolved: target?.resolved ?? false,
+    };
+  });
+}
+
+/**
+ * Collects the inputs of a step from the combo's data flow entries, then
+ * from the composition. Skills named by their name rather than their alias
+ * are bound by key, and a binding already listed is not repeated.
+ */
+function bindingsFor(
+  key: string,
+  combo: ComboSkillDefinition,
+  composed: CompositionBinding[]
+): PlanBinding[] {
+  const keys = skillKeys(combo);
+  const bindings: PlanBinding[] = [];
+  const add = (binding: PlanBinding) => {
+    const listed = bindings.some(
+      (b) => b.from === binding.from && b.output === binding.output && b.input === binding.input
+    );
+    if (!listed) bindings.push(binding);
+  };
+
+  for (const flow of combo.constraints?.data_flow ?? []) {
+    const from = keys.get(flow.from);
+    if (keys.get(flow.to) !== key || !from || from === key) {
+      continue;
+    }
+    const mapping = Object.entries(flow.mapping ?? {});
+    if (mapping.length === 0) {
+      add({ from });
+    }
+    for (const [output, input] of mapping) {
+      add({ from, output, input });
+    }
+  }
+
+  for (const { from: producer, to, output, input } of composed) {
+    const from = keys.get(producer.skill);
+    if (keys.get(to.skill) !== key || !from || from === key) {
+      continue;
+    }
+    add({
+      from,
+      ...(output !== undefined ? { output } : {}),
+      ...(input !== undefined ? { input } : {}),
+    });
+  }
+  return bindings;
+}
+
+/**
+ * Drops the parts of an effective modifier that only make sense against
+ * the source document.
+ */
+function toPlanModifier({ type, config, source }: EffectiveModifier): PlanModifier {
+  return { type, config, source };
+}
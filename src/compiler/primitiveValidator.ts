@@ -0,0 +1,95 @@
+/**
+ * Primitive declaration checks for combo skills.
+ *
+ * This module handles:
+ * - Checking that a combo declares every primitive its skills use
+ *
+ * Design notes:
+ * - A combo's `primitives` drive modifier compatibility checks for
+ *   combo-level modifiers, so a primitive missing there hides conflicts
+ *   (e.g. `cache` on a combo that also writes)
+ * - Missing primitives are warnings, reported once per primitive at the
+ *   first skill that uses it
+ */
+
+import type { ComboSkillDefinition, Diagnostic, SkillPrimitive } from '../types.js';
+import { createDiagnostic, splitDiagnostics } from './diagnostics.js';
+
+/**
+ * Result of checking primitive declarations.
+ */
+export interface PrimitiveValidationResult {
+  valid: boolean;
+  errors: Diagnostic[];
+  warnings: Diagnostic[];
+}
+
+/**
+ * Checks that the combo's `primitives` cover the primitives of its skills.
+ *
+ * @param combo - The combo skill definition
+ * @returns Validation result
+ */
+export function validatePrimitives(combo: ComboSkillDefinition): PrimitiveValidationResult {
+  const diagnostics: Diagnostic[] = [];
+
+  // First skill (and position) using each primitive
+  const used = new Map<SkillPrimitive, { skill: number; index: number }>();
+  combo.skills.forEach((skill, skillIndex) => {
+    (skill.primitives ?? []).forEach((primitive, index) => {
+      if (!used.has(primitive)) {
+        used.set(primitive, { skill: skillIndex, index });
+      }
+    });
+  });
+
+  if (!combo.primitives) {
+    if (used.size > 0) {
+      const primitives = [...used.keys()];
+      diagnostics.push(
+        createDiagnostic(
+          'PRM001',
+          'warning',
+          `Combo does not declare primitives; its skills use ${primitives.join(', ')}`,
+          ['skills'],
+          {
+            fix: {
+              description: `Declare primitives: [${primitives.join(', ')}]`,
+              edits: [{ op: 'add', path: ['primitives'], value: primitives }],
+            },
+          }
+        )
+      );
+    }
+  } else {
+    const declared = combo.primitives;
+    for (const [primitive, { skill, index }] of used) {
+      if (declared.includes(primitive)) continue;
+
+      const ref = combo.skills[skill];
+      diagnostics.push(
+        createDiagnostic(
+          'PRM001',
+          'warning',
+          `Skill '${ref.alias ?? ref.name}' uses primitive '${primitive}', which the combo does not declare`,
+          ['skills', skill, 'primitives', index],
+          {
+            related: [{ message: 'Combo primitives are declared here', path: ['primitives'] }],
+            fix: {
+              description: `Add '${primitive}' to the combo's primitives`,
+              edits: [{ op: 'add', path: ['primitives', declared.length], value: primitive }],
+            },
+          }
+        )
+      );
+    }
+  }
+
+  const { errors, warnings } = splitDiagnostics(diagnostics);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
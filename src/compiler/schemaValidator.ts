@@ -0,0 +1,373 @@
+/**
+ * JSON Schema validation for combo skill definitions.
+ *
+ * This module handles:
+ * - Validating definitions against schemas/combo-skill.schema.json
+ * - Generating the schema with the custom modifiers in the registry
+ * - Checking a single modifier config against its schema, for modifiers
+ *   parsed outside a full definition
+ * - Translating validator output into path-addressed diagnostics
+ * - Collapsing noisy `oneOf` failures on modifiers into a single error
+ *
+ * Design notes:
+ * - Paths are kept as segments so callers can locate the offending node
+ *   in the source document, and formatted as `skills[2].modifiers[0]`
+ *   for display
+ * - The schema file is the single source of truth for built-in syntax;
+ *   this module adds no rules of its own beyond the registered modifiers'
+ *   prefix patterns and config schemas
+ * - The compiled validator is cached per set of registered modifiers, so
+ *   registering a modifier takes effect on the next validation
+ */
+
+import { Ajv, type ErrorObject, type ValidateFunction } from 'ajv';
+
+// Import attributes need Node 18.20 or 20.10; package.json `engines` matches
+import comboSkillSchema from '../../schemas/combo-skill.schema.json' with { type: 'json' };
+import type { Diagnostic, DocumentPath, ModifierConfigIssue, ModifierType } from '../types.js';
+import { closestMatch, createDiagnostic } from './diagnostics.js';
+import {
+  getModifierDefinition,
+  getModifierDefinitions,
+  getModifierTypes,
+  isBuiltinModifier,
+} from './modifierRegistry.js';
+
+/**
+ * Validation result for schema checks.
+ */
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: Diagnostic[];
+}
+
+// `verbose` exposes the failing schema, used to suggest known field names
+const ajv = new Ajv({ allErrors: true, strict: false, verbose: true });
+
+/**
+ * Compiled validator and the modifier types it was generated for.
+ */
+let compiled: { types: string; validate: ValidateFunction } | undefined;
+
+/**
+ * Compiled config validators, by config schema.
+ */
+const configValidators = new WeakMap<object, ValidateFunction>();
+
+/**
+ * Generates the combo skill JSON Schema: schemas/combo-skill.schema.json
+ * extended with the custom modifiers in the registry.
+ *
+ * @returns The schema; without custom modifiers, the schema file unchanged
+ */
+export function generateComboSkillSchema(): Record<string, unknown> {
+  const custom = getModifierDefinitions().filter((d) => !isBuiltinModifier(d.type));
+  if (custom.length === 0) {
+    return comboSkillSchema;
+  }
+
+  const schema = structuredClone(comboSkillSchema) as typeof comboSkillSchema;
+  const { modifierType, prefixModifier, structuredModifier } = schema.definitions;
+
+  modifierType.enum.push(...custom.map((d) => d.type));
+
+  // `^(retry(:...)?|...|dry-run(:...)?)$` gains one alternative per modifier
+  const alternatives = custom.map((d) =>
+    d.parsePrefix ? `${d.type}(:(${d.prefixPattern ?? '.+'}))?` : d.type
+  );
+  prefixModifier.pattern = prefixModifier.pattern.replace(/\)\$$/, `|${alternatives.join('|')})$`);
+
+  const properties = structuredModifier.properties as Record<string, unknown>;
+  for (const definition of custom) {
+    properties[definition.type] = definition.configSchema ?? { type: 'object' };
+  }
+
+  return schema;
+}
+
+/**
+ * Validate a parsed combo skill definition against the JSON Schema.
+ */
+export function validateSchema(combo: unknown): SchemaValidationResult {
+  const types = getModifierTypes().join(',');
+  if (compiled?.types !== types) {
+    // Ajv keeps compiled schemas by $id, and each generation reuses it
+    ajv.removeSchema(comboSkillSchema.$id);
+    compiled = { types, validate: ajv.compile(generateComboSkillSchema()) };
+  }
+  const validateAgainstSchema = compiled.validate;
+
+  if (validateAgainstSchema(combo)) {
+    return { valid: true, errors: [] };
+  }
+
+  const errors = condenseErrors(validateAgainstSchema.errors ?? [], combo);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Checks a modifier config against the schema of its type: the structured
+ * form in schemas/combo-skill.schema.json for built-in modifiers, the
+ * definition's configSchema for custom ones.
+ *
+ * @param type - A registered modifier type
+ * @param config - The parsed config
+ * @returns One issue per invalid value, in document order
+ */
+export function validateModifierConfig(
+  type: ModifierType,
+  config: Record<string, unknown>
+): ModifierConfigIssue[] {
+  const builtin = comboSkillSchema.definitions.structuredModifier.properties as Record<string, object>;
+  const schema = isBuiltinModifier(type)
+    ? builtin[type]
+    : getModifierDefinition(type)?.configSchema;
+  if (!schema) {
+    return [];
+  }
+
+  let validate = configValidators.get(schema);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    configValidators.set(schema, validate);
+  }
+  if (validate(config)) {
+    return [];
+  }
+
+  return (validate.errors ?? [])
+    .map((error): ModifierConfigIssue => {
+      const path = parsePointer(error.instancePath);
+      if (error.keyword !== 'additionalProperties') {
+        return { path, message: describeError(error) };
+      }
+      const field = (error.params as { additionalProperty: string }).additionalProperty;
+      const known = Object.keys(
+        (error.parentSchema as { properties?: Record<string, unknown> } | undefined)?.properties ?? {}
+      );
+      const suggestion = closestMatch(field, known);
+      return {
+        path: [...path, field],
+        message: suggestion
+          ? `unknown field '${field}' (did you mean '${suggestion}'?)`
+          : `unknown field '${field}'`,
+      };
+    })
+    .sort((a, b) => comparePaths(a.path, b.path));
+}
+
+/**
+ * Convert Ajv errors into diagnostics.
+ *
+ * Modifiers are declared as `oneOf: [prefix string, structured object]`, so a
+ * single bad modifier produces an error for each branch plus the `oneOf`
+ * failure itself. We drop the branch-selection errors (`type`, `pattern`)
+ * at the modifier's own path and report either the deeper errors from the
+ * structured branch or one "invalid modifier" error.
+ */
+function condenseErrors(errors: ErrorObject[], data: unknown): Diagnostic[] {
+  const oneOfPaths = new Set(
+    errors.filter((e) => e.keyword === 'oneOf').map((e) => e.instancePath)
+  );
+
+  const kept = errors.filter(
+    (e) =>
+      e.keyword !== 'oneOf' &&
+      !(oneOfPaths.has(e.instancePath) && (e.keyword === 'type' || e.keyword === 'pattern'))
+  );
+
+  const result: Diagnostic[] = [];
+
+  for (const instancePath of oneOfPaths) {
+    const explained = kept.some(
+      (e) => e.instancePath === instancePath || e.instancePath.startsWith(`${instancePath}/`)
+    );
+    if (!explained) {
+      const path = parsePointer(instancePath);
+      const value = valueAt(data, path);
+      result.push(
+        typeof value === 'string'
+          ? invalidModifierDiagnostic(value, path)
+          : createDiagnostic(
+              'SCH003',
+              'error',
+              'must be a prefix modifier string or a structured modifier object',
+              path
+            )
+      );
+    }
+  }
+
+  for (const error of kept) {
+    result.push(toDiagnostic(error, data));
+  }
+
+  return result.sort((a, b) => comparePaths(a.path ?? [], b.path ?? []));
+}
+
+/**
+ * Build the diagnostic for an invalid prefix modifier, suggesting a known
+ * type when the type looks like a typo.
+ */
+function invalidModifierDiagnostic(value: string, path: DocumentPath): Diagnostic {
+  const [type, ...rest] = value.split(':');
+  const types = getModifierTypes();
+  const suggestion = types.includes(type) ? undefined : closestMatch(type, types);
+  if (!suggestion) {
+    const reason = types.includes(type) ? describePrefixValueProblem(type, rest.join(':')) : undefined;
+    return createDiagnostic(
+      'SCH003',
+      'error',
+      reason ? `invalid modifier '${value}': ${reason}` : `invalid modifier '${value}'`,
+      path
+    );
+  }
+
+  const replacement = [suggestion, ...rest].join(':');
+  return createDiagnostic(
+    'SCH003',
+    'error',
+    `unknown modifier '${type}' (did you mean '${suggestion}'?)`,
+    path,
+    {
+      fix: {
+        description: `Replace '${value}' with '${replacement}'`,
+        edits: [{ op: 'replace', path, value: replacement }],
+      },
+    }
+  );
+}
+
+/**
+ * Explains why the value of a prefix modifier of a known type is invalid,
+ * e.g. `must be <= 10` for `retry:11`.
+ */
+function describePrefixValueProblem(type: ModifierType, value: string): string | undefined {
+  const definition = getModifierDefinition(type);
+  if (!definition || value === '') {
+    return undefined;
+  }
+  if (!definition.parsePrefix) {
+    return `'${type}' takes no value in prefix form`;
+  }
+  try {
+    return validateModifierConfig(type, definition.parsePrefix(value))[0]?.message;
+  } catch (e) {
+    return (e as Error).message;
+  }
+}
+
+/**
+ * Build a diagnostic for a single Ajv error.
+ *
+ * Unknown fields are reported at the offending key rather than at the
+ * enclosing object so the location points at the typo. When the key is close
+ * to a known field, a rename is suggested.
+ */
+function toDiagnostic(error: ErrorObject, data: unknown): Diagnostic {
+  const params = error.params as Record<string, unknown>;
+  const path = parsePointer(error.instancePath);
+
+  switch (error.keyword) {
+    case 'required':
+      return createDiagnostic(
+        'SCH001',
+        'error',
+        `missing required field '${params.missingProperty}'`,
+        path
+      );
+    case 'additionalProperties': {
+      const field = params.additionalProperty as string;
+      const parent = valueAt(data, path) as Record<string, unknown>;
+      const known = Object.keys(
+        (error.parentSchema as { properties?: Record<string, unknown> } | undefined)
+          ?.properties ?? {}
+      ).filter((key) => !(key in parent));
+      const suggestion = closestMatch(field, known);
+
+      return createDiagnostic(
+        'SCH002',
+        'error',
+        suggestion
+          ? `unknown field '${field}' (did you mean '${suggestion}'?)`
+          : `unknown field '${field}'`,
+        [...path, field],
+        suggestion
+          ? {
+              fix: {
+                description: `Rename '${field}' to '${suggestion}'`,
+                edits: [{ op: 'move', from: [...path, field], path: [...path, suggestion] }],
+              },
+            }
+          : {}
+      );
+    }
+    default:
+      return createDiagnostic('SCH004', 'error', describeError(error), path);
+  }
+}
+
+/**
+ * Build a message for a single Ajv value error.
+ */
+function describeError(error: ErrorObject): string {
+  const params = error.params as Record<string, unknown>;
+
+  switch (error.keyword) {
+    case 'enum':
+      return `must be one of: ${(params.allowedValues as unknown[]).join(', ')}`;
+    case 'minimum':
+    case 'maximum':
+      return `must be ${params.comparison} ${params.limit}`;
+    case 'minItems':
+      return `must have at least ${params.limit} item(s)`;
+    case 'minLength':
+      return `must be at least ${params.limit} characters`;
+    case 'maxLength':
+      return `must be at most ${params.limit} characters`;
+    default:
+      return error.message ?? `failed '${error.keyword}' check`;
+  }
+}
+
+/**
+ * Parse a JSON pointer (`/skills/2/modifiers/0`) into path segments.
+ */
+function parsePointer(pointer: string): DocumentPath {
+  if (!pointer) return [];
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((part) => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .map((part) => (/^\d+$/.test(part) ? parseInt(part, 10) : part));
+}
+
+/**
+ * Read the value at a path.
+ */
+function valueAt(data: unknown, path: DocumentPath): unknown {
+  let current = data;
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Order paths so errors are reported grouped by location.
+ */
+function comparePaths(a: DocumentPath, b: DocumentPath): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] === b[i]) continue;
+    if (typeof a[i] === 'number' && typeof b[i] === 'number') {
+      return (a[i] as number) - (b[i] as number);
+    }
+    return String(a[i]).localeCompare(String(b[i]));
+  }
+  return a.length - b.length;
+}
@@ -0,0 +1,327 @@
+/**
+ * Secrets in combo skills and their output.
+ *
+ * This module handles:
+ * - Parsing secret references (`env:NAME`, `file:PATH`, `keychain:NAME`)
+ *   used as the `source` of `auth` modifiers
+ * - Finding literal credentials (tokens, keys, passwords) in combo
+ *   definitions
+ * - Redacting credential-looking values from prompts, SKILL.md,
+ *   plan.json and metadata.json
+ *
+ * Design notes:
+ * - References are never expanded: combo-skills does not read the
+ *   variable, file or keychain entry, and passes the reference on as
+ *   written. The runtime that executes the skill resolves it
+ * - Diagnostics never repeat a value that may be a secret; they name the
+ *   kind of credential and point at its location instead
+ * - Redaction is the last line of defense. It also covers text that
+ *   validation does not see, such as skill descriptions from registries
+ * - Patterns favor known token formats over guessing, so ordinary prose
+ *   and secret references are left alone
+ */
+
+import type {
+  ComboSkillDefinition,
+  Diagnostic,
+  DocumentPath,
+  Modifier,
+  SecretScheme,
+} from '../types.js';
+import { createDiagnostic, splitDiagnostics } from './diagnostics.js';
+
+/**
+ * Secret reference schemes and the names each accepts.
+ */
+export const SECRET_SCHEMES: Record<
+  SecretScheme,
+  { form: string; description: string; name: RegExp }
+> = {
+  env: { form: 'env:NAME', description: 'environment variable name', name: /^[A-Za-z_][A-Za-z0-9_]*$/ },
+  file: { form: 'file:PATH', description: 'file path', name: /^[^\s\0][^\n\0]*$/ },
+  keychain: {
+    form: 'keychain:NAME',
+    description: 'keychain or secret store entry name',
+    name: /^[A-Za-z0-9][A-Za-z0-9._/-]*$/,
+  },
+};
+
+/**
+ * The reference forms, for messages: `env:NAME, file:PATH or keychain:NAME`.
+ */
+const SECRET_REF_FORMS = Object.values(SECRET_SCHEMES)
+  .map((scheme) => scheme.form)
+  .join(', ')
+  .replace(/, ([^,]+)$/, ' or $1');
+
+/**
+ * A kind of credential recognized by redaction.
+ */
+export interface SecretPattern {
+  /**
+   * Identifier used in redaction markers, e.g. `github-token`.
+   */
+  id: string;
+
+  /**
+   * Name used in messages, e.g. `GitHub token`.
+   */
+  description: string;
+
+  /**
+   * Global pattern. When it has a `secret` group, only that group is
+   * redacted and the rest of the match (such as a `password:` key) is kept.
+   */
+  pattern: RegExp;
+}
+
+/**
+ * Credential patterns, most specific first.
+ */
+export const SECRET_PATTERNS: SecretPattern[] = [
+  {
+    id: 'private-key',
+    description: 'private key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+  },
+  { id: 'aws-access-key', description: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    id: 'github-token',
+    description: 'GitHub token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  },
+  { id: 'gitlab-token', description: 'GitLab token', pattern: /\bglpat-[A-Za-z0-9_-]{20,}/g },
+  { id: 'slack-token', description: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { id: 'stripe-key', description: 'Stripe key', pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}/g },
+  { id: 'api-key', description: 'API secret key', pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g },
+  { id: 'google-api-key', description: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  {
+    id: 'jwt',
+    description: 'JSON Web Token',
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  },
+  {
+    id: 'authorization-header',
+    description: 'authorization header',
+    pattern: /\b(?:Bearer|Basic)\s+(?<secret>[A-Za-z0-9._~+/-]{16,}=*)/g,
+  },
+  {
+    id: 'url-credentials',
+    description: 'password in a URL',
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s/:@]+:(?<secret>[^\s/@]+)@/gi,
+  },
+  {
+    id: 'credential-assignment',
+    description: 'password or token',
+    pattern:
+      /\b(?:password|passwd|secret|token|api[_-]?key|access[_-]?key)["']?\s*[:=]\s*["']?(?<secret>(?!(?:env|file|keychain):|\$\{|\[REDACTED)(?=[^\s"',;]*\d)[^\s"',;]{8,})/gi,
+  },
+];
+
+/**
+ * Matches a bare environment variable name used as an auth source.
+ */
+const BARE_NAME_REGEX = /^[A-Z_][A-Z0-9_]*$/;
+
+/**
+ * Parses a secret reference.
+ *
+ * @param value - Reference such as `env:GITHUB_TOKEN`
+ * @returns The scheme and the name after it
+ * @throws Error if the value is not a valid reference; the message does
+ *   not repeat the value
+ */
+export function parseSecretRef(value: string): { scheme: SecretScheme; name: string } {
+  const separator = value.indexOf(':');
+  const scheme = value.slice(0, separator) as SecretScheme;
+  if (separator < 0 || !Object.hasOwn(SECRET_SCHEMES, scheme)) {
+    throw new Error(`Invalid secret reference: expected ${SECRET_REF_FORMS}`);
+  }
+  const name = value.slice(separator + 1);
+  if (!SECRET_SCHEMES[scheme].name.test(name)) {
+    throw new Error(`Invalid secret reference: '${scheme}:' needs a valid ${SECRET_SCHEMES[scheme].description}`);
+  }
+  return { scheme, name };
+}
+
+/**
+ * Checks whether a value is a valid secret reference.
+ */
+export function isSecretRef(value: unknown): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    parseSecretRef(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Lists the kinds of credential found in a text.
+ *
+ * @param text - Text to search
+ * @returns The matching patterns, in SECRET_PATTERNS order
+ */
+export function findSecrets(text: string): SecretPattern[] {
+  return SECRET_PATTERNS.filter(({ pattern }) => [...text.matchAll(pattern)].length > 0);
+}
+
+/**
+ * Replaces credential-looking values in a text with markers such as
+ * `[REDACTED:github-token]`.
+ *
+ * @param text - Text to redact
+ * @returns The redacted text, and the pattern id of each redaction
+ */
+export function redactSecrets(text: string): { text: string; redactions: string[] } {
+  const redactions: string[] = [];
+  let redacted = text;
+  for (const { id, pattern } of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, (match: string, ...args: unknown[]) => {
+      redactions.push(id);
+      const groups = args[args.length - 1] as Record<string, string | undefined> | undefined;
+      const secret = typeof groups === 'object' ? groups?.secret : undefined;
+      if (secret === undefined) {
+        return `[REDACTED:${id}]`;
+      }
+      const start = match.lastIndexOf(secret);
+      return `${match.slice(0, start)}[REDACTED:${id}]${match.slice(start + secret.length)}`;
+    });
+  }
+  return { text: redacted, redactions };
+}
+
+/**
+ * Redacts every string in a JSON-like value.
+ *
+ * @param value - Value to redact; it is not modified
+ * @returns A redacted copy, and the pattern id of each redaction
+ */
+export function redactJson<T>(value: T): { value: T; redactions: string[] } {
+  const redactions: string[] = [];
+  const visit = (current: unknown): unknown => {
+    if (typeof current === 'string') {
+      const result = redactSecrets(current);
+      redactions.push(...result.redactions);
+      return result.text;
+    }
+    if (Array.isArray(current)) {
+      return current.map(visit);
+    }
+    if (current && typeof current === 'object') {
+      return Object.fromEntries(Object.entries(current).map(([key, item]) => [key, visit(item)]));
+    }
+    return current;
+  };
+  return { value: visit(value) as T, redactions };
+}
+
+/**
+ * Result of checking a combo for secrets.
+ */
+export interface SecretValidationResult {
+  valid: boolean;
+  errors: Diagnostic[];
+  warnings: Diagnostic[];
+}
+
+/**
+ * Checks a combo for secrets:
+ * - SEC003: a value anywhere in the definition looks like a literal
+ *   credential
+ * - SEC001: an `auth` source is not a valid secret reference
+ * - SEC002: an `auth` source is a bare variable name; `fix` prefixes it
+ *   with `env:`
+ *
+ * @param combo - The combo skill definition, with parameters bound
+ * @returns Validation result
+ */
+export function validateSecrets(combo: ComboSkillDefinition): SecretValidationResult {
+  const diagnostics: Diagnostic[] = [];
+  const literals = new Set<string>();
+
+  walkStrings(combo, [], (value, path) => {
+    const found = findSecrets(value);
+    if (found.length === 0) {
+      return;
+    }
+    literals.add(JSON.stringify(path));
+    diagnostics.push(
+      createDiagnostic(
+        'SEC003',
+        'error',
+        `Value looks like a literal credential (${found.map((p) => p.description).join(', ')}); ` +
+          `keep secrets out of combo files and reference them with ${SECRET_REF_FORMS}`,
+        path
+      )
+    );
+  });
+
+  const checkAuth = (modifiers: Modifier[] | undefined, listPath: DocumentPath) => {
+    (modifiers ?? []).forEach((modifier, index) => {
+      const source = typeof modifier === 'object' ? modifier.auth?.source : undefined;
+      const path = [...listPath, index, 'auth', 'source'];
+      if (typeof source !== 'string' || source.includes('${') || literals.has(JSON.stringify(path))) {
+        return;
+      }
+      if (isSecretRef(source)) {
+        return;
+      }
+      if (BARE_NAME_REGEX.test(source)) {
+        diagnostics.push(
+          createDiagnostic(
+            'SEC002',
+            'warning',
+            `Auth source '${source}' is a bare name; write it as 'env:${source}'`,
+            path,
+            {
+              fix: {
+                description: `Use 'env:${source}'`,
+                edits: [{ op: 'replace', path, value: `env:${source}` }],
+              },
+            }
+          )
+        );
+        return;
+      }
+      try {
+        parseSecretRef(source);
+      } catch (e) {
+        diagnostics.push(createDiagnostic('SEC001', 'error', (e as Error).message, path));
+      }
+    });
+  };
+
+  checkAuth(combo.modifiers, ['modifiers']);
+  combo.skills.forEach((skill, index) => checkAuth(skill.modifiers, ['skills', index, 'modifiers']));
+
+  const { errors, warnings } = splitDiagnostics(diagnostics);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Calls a function for every string in a JSON-like value, with its path.
+ */
+function walkStrings(
+  value: unknown,
+  path: DocumentPath,
+  visit: (value: string, path: DocumentPath) => void
+): void {
+  if (typeof value === 'string') {
+    visit(value, path);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => walkStrings(item, [...path, index], visit));
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      walkStrings(item, [...path, key], visit);
+    }
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Tier resolution for combo skills.
+ *
+ * This module handles:
+ * - Determining the tier of each component skill
+ * - Inferring a combo's tier as max(component tiers) + 1
+ * - Enforcing the reference rules from specs/005-layering-tiers
+ *
+ * Reference rules:
+ * | Tier | Can reference        |
+ * |------|----------------------|
+ * | 1    | MCP/CLI tools only   |
+ * | 2    | Tier 1 + other Tier 2 |
+ * | 3    | Tier 1 + Tier 2      |
+ *
+ * Design notes:
+ * - Registry skills are atomic and default to tier 1
+ * - Nested combos carry their own declared or inferred tier once resolved;
+ *   before resolution (e.g. during validation) their tier is unknown and
+ *   they are skipped unless the reference declares `tier`
+ * - Circular tier references cannot occur without circular combo includes,
+ *   which the skills resolver already rejects
+ */
+
+import type {
+  ComboSkillDefinition,
+  Diagnostic,
+  ResolvedSkill,
+  SkillReference,
+  SkillTier,
+} from '../types.js';
+import { getComboReference } from '../registry/skillsResolver.js';
+import { createDiagnostic, splitDiagnostics } from './diagnostics.js';
+
+/**
+ * Human-readable tier names.
+ */
+export const TIER_NAMES: Record<SkillTier, string> = {
+  1: 'universal',
+  2: 'domain',
+  3: 'abstract',
+};
+
+/**
+ * Highest supported tier.
+ */
+const MAX_TIER: SkillTier = 3;
+
+/**
+ * Result of tier resolution.
+ */
+export interface TierResolutionResult {
+  valid: boolean;
+
+  /**
+   * The combo's tier (declared, or inferred and capped at 3).
+   */
+  tier: SkillTier;
+
+  /**
+   * Whether the tier was inferred rather than declared.
+   */
+  inferred: boolean;
+
+  errors: Diagnostic[];
+  warnings: Diagnostic[];
+}
+
+/**
+ * Infers a tier from component tiers: max(component tiers) + 1.
+ *
+ * The result may exceed the highest tier; callers decide how to report that.
+ */
+export function inferTier(componentTiers: number[]): number {
+  return Math.max(0, ...componentTiers) + 1;
+}
+
+/**
+ * Resolves a combo's tier and checks its references against the tier rules.
+ *
+ * @param combo - The combo skill definition
+ * @param resolvedSkills - Resolved skills, in the same order as `combo.skills`
+ * @returns Tier resolution result
+ */
+export function resolveTier(
+  combo: ComboSkillDefinition,
+  resolvedSkills?: ResolvedSkill[]
+): TierResolutionResult {
+  const diagnostics: Diagnostic[] = [];
+
+  const components = combo.skills.map((ref, index) => ({
+    ref,
+    index,
+    tier: componentTier(ref, resolvedSkills?.[index], index, diagnostics),
+  }));
+  const known = components.filter(
+    (c): c is { ref: SkillReference; index: number; tier: SkillTier } => c.tier !== undefined
+  );
+
+  let tier: SkillTier;
+  const inferred = combo.tier === undefined;
+
+  if (combo.tier !== undefined) {
+    tier = combo.tier;
+  } else {
+    const candidate = inferTier(known.map((c) => c.tier));
+    if (candidate > MAX_TIER) {
+      diagnostics.push(
+        createDiagnostic(
+          'TIR002',
+          'error',
+          `Inferred tier ${candidate} exceeds tier ${MAX_TIER}; tier ${MAX_TIER} skills cannot be composed further`,
+          ['skills']
+        )
+      );
+    }
+    tier = Math.min(candidate, MAX_TIER) as SkillTier;
+  }
+
+  for (const { ref, index, tier: componentTier } of known) {
+    if (!canReference(tier, componentTier)) {
+      diagnostics.push(
+        createDiagnostic(
+          'TIR001',
+          'error',
+          `Tier ${tier} (${TIER_NAMES[tier]}) skill cannot reference tier ${componentTier} skill '${ref.alias ?? ref.name}'`,
+          ['skills', index],
+          {
+            related: [
+              inferred
+                ? { message: `Tier ${tier} was inferred from the component skills`, path: ['skills'] }
+                : { message: `Tier ${tier} is declared here`, path: ['tier'] },
+            ],
+          }
+        )
+      );
+    }
+  }
+
+  const { errors, warnings } = splitDiagnostics(diagnostics);
+
+  return {
+    valid: errors.length === 0,
+    tier,
+    inferred,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Checks whether a skill of one tier may reference a skill of another.
+ */
+export function canReference(tier: SkillTier, componentTier: SkillTier): boolean {
+  if (componentTier < tier) {
+    return true;
+  }
+  // Only domain patterns may reference their own tier
+  return componentTier === tier && tier === 2;
+}
+
+/**
+ * Determines the tier of a component skill.
+ */
+function componentTier(
+  ref: SkillReference,
+  resolved: ResolvedSkill | undefined,
+  index: number,
+  diagnostics: Diagnostic[]
+): SkillTier | undefined {
+  if (ref.tier !== undefined && resolved?.tier !== undefined && ref.tier !== resolved.tier) {
+    diagnostics.push(
+      createDiagnostic(
+        'TIR003',
+        'warning',
+        `Skill '${ref.alias ?? ref.name}' is declared as tier ${ref.tier} but resolves to tier ${resolved.tier}`,
+        ['skills', index, 'tier']
+      )
+    );
+  }
+
+  if (ref.tier !== undefined) {
+    return ref.tier;
+  }
+  if (resolved?.tier !== undefined) {
+    return resolved.tier;
+  }
+  // Nested combos have no tier until resolved
+  return resolved || !getComboReference(ref) ? 1 : undefined;
+}
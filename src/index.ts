@@ -12,14 +12,55 @@
 
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import YAML from 'yaml';
 
 import { compileWithLLM, type LLMCompilerOptions } from './compiler/llmCompiler.js';
-import { resolveDependencyGraph, validateConstraints } from './compiler/graphResolver.js';
-import { resolveSkills } from './registry/skillsResolver.js';
+import {
+  cycleDiagnostics,
+  resolveDependencyGraph,
+  validateConstraints,
+} from './compiler/graphResolver.js';
+import {
+  validateModifierConsistency,
+  validateModifiers,
+  validateSkillModifiers,
+} from './compiler/modifierValidator.js';
+import { analyzeGraphHygiene } from './compiler/graphHygiene.js';
+import {
+  checkResolvedFallbacks,
+  resolveFallbacks,
+  validateFallbacks,
+} from './compiler/fallbackResolver.js';
+import { analyzeLatency } from './compiler/latencyAnalyzer.js';
+import { parseComposition } from './compiler/compositionParser.js';
+import { validateSecrets } from './compiler/secrets.js';
+import { validatePrimitives } from './compiler/primitiveValidator.js';
+import { validateSchema } from './compiler/schemaValidator.js';
+import { bindParameters } from './compiler/parameterBinder.js';
+import { resolveTier } from './compiler/tierResolver.js';
+import {
+  createDiagnostic,
+  formatDiagnostic,
+  splitDiagnostics,
+  type DiagnosticCode,
+} from './compiler/diagnostics.js';
+import {
+  loadComboSource,
+  parseComboSource,
+  getSyntaxDiagnostics,
+  getVersionDiagnostics,
+  locateDiagnostics,
+  type ComboSource,
+} from './loader/comboSource.js';
+import { migrateDocument, type MigrationReport } from './loader/migrations.js';
+import { resolveInheritance } from './loader/inheritance.js';
+import { applyEdits, printComboSource } from './loader/comboEditor.js';
+import { formatUnifiedDiff } from './loader/textDiff.js';
+import { resolveSkills, ComboCycleError, ComboReferenceError } from './registry/skillsResolver.js';
 
 import type {
   ComboSkillDefinition,
+  Diagnostic,
+  ParameterValue,
   ResolvedComboSkill,
   CompiledSkill,
   CompilationResult,
@@ -30,16 +71,199 @@ export type * from './types.js';
 
 // Re-export submodules
 export { compileWithLLM } from './compiler/llmCompiler.js';
-export { resolveDependencyGraph, validateConstraints } from './compiler/graphResolver.js';
-export { resolveSkills, resolveSkill, clearCache } from './registry/skillsResolver.js';
+export {
+  resolveDependencyGraph,
+  validateConstraints,
+  cycleDiagnostics,
+  parseOrderingSteps,
+  formatOrderingSteps,
+  orderingEdges,
+  type DependencyGraph,
+  type DependencyEdge,
+  type DependencyCycle,
+  type SkillNode,
+} from './compiler/graphResolver.js';
+export {
+  analyzeGraphHygiene,
+  HYGIENE_CHECKS,
+  type GraphHygieneOptions,
+  type GraphHygieneResult,
+} from './compiler/graphHygiene.js';
+export {
+  analyzeLatency,
+  type LatencyAnalysis,
+  type SkillLatency,
+} from './compiler/latencyAnalyzer.js';
+export {
+  parseComposition,
+  describeComposition,
+  compositionSkills,
+  type CompositionKind,
+  type CompositionNode,
+  type CompositionParseResult,
+  type SkillCallNode,
+  type SequenceNode,
+  type ParallelNode,
+  type PipeNode,
+  type ConditionalNode,
+  type MapNode,
+} from './compiler/compositionParser.js';
+export {
+  registerModifier,
+  unregisterModifier,
+  getModifierDefinition,
+  getModifierDefinitions,
+  getModifierTypes,
+  isBuiltinModifier,
+  getModifierCompatibility,
+  getModifierInheritance,
+  getModifierConflicts,
+  getStackingWarnings,
+  BUILTIN_MODIFIERS,
+} from './compiler/modifierRegistry.js';
+export {
+  parseDuration,
+  isDuration,
+  getDuration,
+  formatDuration,
+  DURATION_UNITS,
+  DURATION_FIELDS,
+} from './compiler/durations.js';
+export {
+  collectFallbacks,
+  resolveFallbacks,
+  validateFallbacks,
+  checkResolvedFallbacks,
+  type FallbackValidationResult,
+} from './compiler/fallbackResolver.js';
+export { buildExecutionPlan, PLAN_VERSION } from './compiler/planBuilder.js';
+export {
+  parseSecretRef,
+  isSecretRef,
+  findSecrets,
+  redactSecrets,
+  redactJson,
+  validateSecrets,
+  SECRET_SCHEMES,
+  SECRET_PATTERNS,
+  type SecretPattern,
+  type SecretValidationResult,
+} from './compiler/secrets.js';
+export {
+  renderGraph,
+  renderDot,
+  renderMermaid,
+  GRAPH_FORMATS,
+  type GraphFormat,
+} from './compiler/graphRenderer.js';
+export {
+  resolveSkills,
+  resolveSkill,
+  clearCache,
+  getComboReference,
+  ComboCycleError,
+  ComboReferenceError,
+  type ResolverOptions,
+} from './registry/skillsResolver.js';
+export {
+  validateSchema,
+  generateComboSkillSchema,
+  validateModifierConfig,
+  type SchemaValidationResult,
+} from './compiler/schemaValidator.js';
+export {
+  bindParameters,
+  parseParameterAssignments,
+  type ParameterBindingResult,
+} from './compiler/parameterBinder.js';
+export {
+  resolveTier,
+  inferTier,
+  canReference,
+  TIER_NAMES,
+  type TierResolutionResult,
+} from './compiler/tierResolver.js';
+export {
+  createDiagnostic,
+  splitDiagnostics,
+  closestMatch,
+  describeDiagnostic,
+  formatDiagnostic,
+  formatPath,
+  DIAGNOSTIC_CODES,
+  type DiagnosticCode,
+  type DiagnosticDetails,
+} from './compiler/diagnostics.js';
+export {
+  loadComboSource,
+  parseComboSource,
+  getSyntaxDiagnostics,
+  getVersionDiagnostics,
+  locatePath,
+  locateDiagnostics,
+  type ComboSource,
+  type SourcePosition,
+} from './loader/comboSource.js';
+export {
+  migrateDocument,
+  getSchemaVersion,
+  CURRENT_SCHEMA_VERSION,
+  MIGRATIONS,
+  type Migration,
+  type MigrationChange,
+  type MigrationReport,
+} from './loader/migrations.js';
+export {
+  loadConfig,
+  findConfig,
+  CONFIG_FILES,
+  type ComboSkillsConfig,
+  type LoadedConfig,
+} from './loader/config.js';
+export { resolveInheritance, mergeComboDefinitions } from './loader/inheritance.js';
+export { applyEdits, printComboSource } from './loader/comboEditor.js';
+export { diffLines, formatUnifiedDiff, type DiffLine } from './loader/textDiff.js';
+export {
+  validatePrimitives,
+  type PrimitiveValidationResult,
+} from './compiler/primitiveValidator.js';
 export {
   validateModifiers,
+  validateSkillModifiers,
+  validateModifierConsistency,
+  effectiveModifiers,
+  comboWideModifiers,
   parseModifier,
+  toPrefixModifier,
+  formatModifier,
   isModifierCompatible,
   getCompatibleModifiers,
   MODIFIER_TYPES,
   MODIFIER_PRIMITIVE_COMPATIBILITY,
+  MODIFIER_INHERITANCE,
+  RETRY_DEFAULTS,
+  ModifierValueError,
+  type ModifierConsistencyResult,
 } from './compiler/modifierValidator.js';
+export {
+  createModifierRuntime,
+  applyModifiers,
+  backoffDelay,
+  resolveSecretRef,
+  SkillTimeoutError,
+  BUILTIN_MIDDLEWARE,
+  RUNTIME_DEFAULTS,
+  type InvocationContext,
+  type SkillInvocation,
+  type Middleware,
+  type MiddlewareFactory,
+  type MiddlewareRuntime,
+  type ModifierRuntime,
+  type ModifierRuntimeOptions,
+  type RuntimeLogEntry,
+  type InvokeOptions,
+  type WrappedSkill,
+} from './runtime/modifierRuntime.js';
 
 /**
  * Options for the compile function.
@@ -55,73 +279,454 @@ export interface CompileOptions extends LLMCompilerOptions {
    * Skip validation of the combo skill definition.
    */
   skipValidation?: boolean;
+
+  /**
+   * Values for the combo's declared parameters.
+   * Strings are coerced to the declared type.
+   */
+  params?: Record<string, ParameterValue>;
+
+  /**
+   * Path of the file the combo was loaded from. Relative references to
+   * nested combos are resolved against its directory.
+   */
+  sourcePath?: string;
+}
+
+/**
+ * Options for validating a combo skill definition.
+ */
+export interface ValidateOptions {
+  /**
+   * Parsed source the combo was loaded from. When given, diagnostics are
+   * located at the offending line and column.
+   */
+  source?: ComboSource;
+
+  /**
+   * Values for the combo's declared parameters.
+   */
+  params?: Record<string, ParameterValue>;
+
+  /**
+   * Graph hygiene checks to run, by code (see HYGIENE_CHECKS).
+   * Default: all; an empty list turns them off.
+   */
+  hygiene?: DiagnosticCode[];
 }
 
 /**
  * Loads a combo skill definition from a file.
  *
+ * If the definition uses `extends`, the base chain is loaded and the
+ * fully merged definition is returned.
+ *
  * @param filePath - Path to the .combo.yaml or .combo.json file
  * @returns Parsed combo skill definition
  */
 export async function loadComboSkill(filePath: string): Promise<ComboSkillDefinition> {
-  const content = await fs.readFile(filePath, 'utf-8');
-  const ext = path.extname(filePath);
-
-  if (ext === '.yaml' || ext === '.yml') {
-    return YAML.parse(content) as ComboSkillDefinition;
-  } else if (ext === '.json') {
-    return JSON.parse(content) as ComboSkillDefinition;
-  } else {
-    // Try YAML first, then JSON
-    try {
-      return YAML.parse(content) as ComboSkillDefinition;
-    } catch {
-      return JSON.parse(content) as ComboSkillDefinition;
-    }
+  const source = await loadComboSource(filePath);
+
+  const [syntaxError] = getSyntaxDiagnostics(source);
+  if (syntaxError) {
+    throw new Error(formatDiagnostic(syntaxError));
   }
+
+  return resolveInheritance(source);
+}
+
+/**
+ * Result of validating a combo skill definition.
+ */
+export interface ValidationResult {
+  valid: boolean;
+  errors: Diagnostic[];
+  warnings: Diagnostic[];
+}
+
+/**
+ * Loads and validates a combo skill file.
+ *
+ * Syntax errors, inheritance failures and validation issues are all
+ * reported as diagnostics. For combos that use `extends`, validation runs on
+ * the merged definition, so its diagnostics carry the file and document
+ * path but no line or column.
+ *
+ * @param filePath - Path to the .combo.yaml or .combo.json file
+ * @returns Validation result with the merged combo when it could be loaded
+ */
+export async function validateComboFile(
+  filePath: string,
+  options: Pick<ValidateOptions, 'params' | 'hygiene'> = {}
+): Promise<ValidationResult & { combo?: ComboSkillDefinition }> {
+  const source = await loadComboSource(filePath);
+
+  const syntaxErrors = getSyntaxDiagnostics(source);
+  if (syntaxErrors.length > 0) {
+    return { valid: false, errors: syntaxErrors, warnings: [] };
+  }
+
+  if (!source.combo.extends) {
+    return {
+      ...validateComboSkill(source.combo, { ...options, source }),
+      combo: source.combo,
+    };
+  }
+
+  const version = splitDiagnostics(locateDiagnostics(getVersionDiagnostics(source), source));
+  if (version.errors.length > 0) {
+    return { valid: false, ...version };
+  }
+
+  let combo: ComboSkillDefinition;
+  try {
+    combo = await resolveInheritance(source);
+  } catch (e) {
+    const diagnostic = createDiagnostic('INH001', 'error', (e as Error).message, ['extends']);
+    return {
+      valid: false,
+      errors: locateDiagnostics([diagnostic], source),
+      warnings: version.warnings,
+    };
+  }
+
+  const { valid, errors, warnings } = validateComboSkill(combo, options);
+  const inFile = (d: Diagnostic): Diagnostic => ({ ...d, file: source.file });
+  return {
+    valid,
+    combo,
+    errors: errors.map(inFile),
+    warnings: [...version.warnings, ...warnings.map(inFile)],
+  };
 }
 
 /**
  * Validates a combo skill definition.
  *
+ * Declared parameters are bound first, so templated values are validated
+ * with the values they will compile with. When the parsed source is passed,
+ * its schema version is checked and diagnostics are located at the
+ * offending line and column of the file.
+ *
  * @param combo - The combo skill definition to validate
+ * @param options - Validation options
  * @returns Validation result
  */
 export function validateComboSkill(
-  combo: ComboSkillDefinition
-): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
+  combo: ComboSkillDefinition,
+  options: ValidateOptions = {}
+): ValidationResult {
+  const { source, params, hygiene: hygieneChecks } = options;
+  let diagnostics: Diagnostic[] = [];
 
-  // Basic required field validation
-  if (!combo.name) {
-    errors.push('Missing required field: name');
-  }
-  if (!combo.description) {
-    errors.push('Missing required field: description');
+  // A newer schema version may use syntax this version does not know
+  if (source) {
+    diagnostics.push(...getVersionDiagnostics(source));
+    if (diagnostics.some((d) => d.severity === 'error')) {
+      return { valid: false, errors: locateDiagnostics(diagnostics, source), warnings: [] };
+    }
   }
-  if (!combo.skills || combo.skills.length === 0) {
-    errors.push('Missing required field: skills (must have at least one)');
+
+  // Bind parameters; the bound combo keeps the same shape, so paths still
+  // refer to the original document
+  if (combo.parameters || params) {
+    const binding = bindParameters(combo, params);
+    diagnostics.push(...binding.errors, ...binding.warnings);
+    combo = { ...binding.combo, parameters: combo.parameters };
   }
-  if (!combo.intent) {
-    errors.push('Missing required field: intent');
+
+  // Structural validation against schemas/combo-skill.schema.json
+  const schemaValidation = validateSchema(combo);
+  diagnostics.push(...schemaValidation.errors);
+
+  // Semantic checks assume a well-formed definition, so they only run once
+  // the schema is satisfied.
+  if (schemaValidation.valid) {
+    if (combo.constraints) {
+      const constraintValidation = validateConstraints(combo);
+      diagnostics.push(...constraintValidation.errors, ...constraintValidation.warnings);
+    }
+    const composition = parseComposition(combo);
+    diagnostics.push(...composition.errors, ...composition.warnings);
+    const hygiene = analyzeGraphHygiene(combo, undefined, { checks: hygieneChecks });
+    diagnostics.push(...hygiene.errors, ...hygiene.warnings);
+    const primitiveValidation = validatePrimitives(combo);
+    diagnostics.push(...primitiveValidation.errors, ...primitiveValidation.warnings);
+    if (combo.modifiers && combo.modifiers.length > 0) {
+      const modifierValidation = validateModifiers(combo.modifiers, combo.primitives);
+      diagnostics.push(...modifierValidation.errors, ...modifierValidation.warnings);
+    }
+    const skillModifierValidation = validateSkillModifiers(combo);
+    diagnostics.push(...skillModifierValidation.errors, ...skillModifierValidation.warnings);
+    const consistency = validateModifierConsistency(combo);
+    diagnostics.push(...consistency.errors, ...consistency.warnings);
+    const fallbackValidation = validateFallbacks(combo);
+    diagnostics.push(...fallbackValidation.errors, ...fallbackValidation.warnings);
+    const secretValidation = validateSecrets(combo);
+    diagnostics.push(...secretValidation.errors, ...secretValidation.warnings);
+    const tierResolution = resolveTier(combo);
+    diagnostics.push(...tierResolution.errors, ...tierResolution.warnings);
+    const latency = analyzeLatency(combo);
+    diagnostics.push(...latency.errors, ...latency.warnings);
   }
 
-  // Validate constraints if present
-  if (combo.constraints) {
-    const constraintValidation = validateConstraints(combo);
-    errors.push(...constraintValidation.errors);
+  if (source) {
+    diagnostics = locateDiagnostics(diagnostics, source);
   }
 
-  // TODO: Add JSON Schema validation
-  // const schemaValidator = new Ajv();
-  // const validate = schemaValidator.compile(comboSkillSchema);
-  // if (!validate(combo)) {
-  //   errors.push(...validate.errors.map(e => e.message));
-  // }
+  const { errors, warnings } = splitDiagnostics(diagnostics);
 
   return {
     valid: errors.length === 0,
     errors,
+    warnings,
+  };
+}
+
+/**
+ * Options for fixing a combo skill file.
+ */
+export interface FixOptions {
+  /**
+   * Compute the fixes without writing the file.
+   */
+  dryRun?: boolean;
+
+  /**
+   * Only apply fixes for these diagnostic codes (e.g. ['MOD004']).
+   */
+  codes?: string[];
+
+  /**
+   * Values for the combo's declared parameters, used while validating.
+   */
+  params?: Record<string, ParameterValue>;
+}
+
+/**
+ * Result of fixing a combo skill file.
+ */
+export interface FixResult {
+  /**
+   * Whether any fix was applied.
+   */
+  changed: boolean;
+
+  /**
+   * The fixed file content.
+   */
+  content: string;
+
+  /**
+   * Unified diff from the original content; empty when unchanged.
+   */
+  diff: string;
+
+  /**
+   * Diagnostics whose fixes were applied, in order. Each is located in the
+   * content as it was when its fix was applied.
+   */
+  applied: Diagnostic[];
+
+  /**
+   * Diagnostics reported for the fixed content.
+   */
+  remaining: Diagnostic[];
+}
+
+/**
+ * Upper bound on fix passes, in case fixes keep producing new diagnostics.
+ */
+const MAX_FIX_PASSES = 50;
+
+/**
+ * Applies suggested fixes to a combo skill file, keeping comments and
+ * formatting.
+ *
+ * @param filePath - Path to the .combo.yaml or .combo.json file
+ * @param options - Fix options
+ * @returns Fix result; the file is rewritten unless `dryRun` is set
+ */
+export async function fixCombo(filePath: string, options: FixOptions = {}): Promise<FixResult> {
+  const source = await loadComboSource(filePath);
+  const result = fixComboSource(source, options);
+
+  if (result.changed && !options.dryRun) {
+    await fs.writeFile(filePath, result.content, 'utf-8');
+  }
+
+  return result;
+}
+
+/**
+ * Applies suggested fixes to a parsed combo source.
+ *
+ * Fixes are applied one at a time, re-validating after each, so every fix
+ * sees the document as left by the previous one. A fix is skipped if it
+ * would introduce new errors, or if it would overwrite a value that uses a
+ * `${params.x}` reference.
+ *
+ * @param source - Parsed combo source; it is not modified
+ * @param options - Fix options (`dryRun` is ignored; nothing is written)
+ * @returns Fix result
+ */
+export function fixComboSource(source: ComboSource, options: FixOptions = {}): FixResult {
+  const { codes, params } = options;
+
+  if (source.combo?.extends) {
+    throw new Error(
+      "Cannot fix a combo that uses 'extends'; fix the base combo or move the fields into this file"
+    );
+  }
+
+  const check = (current: ComboSource): Diagnostic[] => {
+    const syntaxErrors = getSyntaxDiagnostics(current);
+    if (syntaxErrors.length > 0) {
+      return syntaxErrors;
+    }
+    const { errors, warnings } = validateComboSkill(current.combo, { source: current, params });
+    return [...errors, ...warnings];
+  };
+
+  const applied: Diagnostic[] = [];
+  const skipped = new Set<string>();
+  let current = source;
+  let diagnostics = check(current);
+
+  for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+    const candidate = diagnostics.find(
+      (d) =>
+        d.fix &&
+        (!codes || codes.includes(d.code)) &&
+        !skipped.has(fixKey(d)) &&
+        !overwritesParameterReference(current, d)
+    );
+    if (!candidate?.fix) {
+      break;
+    }
+
+    let next: ComboSource;
+    try {
+      const edited = parseComboSource(current.content, current.file);
+      applyEdits(edited.document, candidate.fix.edits);
+      next = parseComboSource(printComboSource(edited), current.file);
+    } catch {
+      skipped.add(fixKey(candidate));
+      continue;
+    }
+
+    const nextDiagnostics = check(next);
+    const errorCount = (list: Diagnostic[]) => list.filter((d) => d.severity === 'error').length;
+    if (next.content === current.content || errorCount(nextDiagnostics) > errorCount(diagnostics)) {
+      skipped.add(fixKey(candidate));
+      continue;
+    }
+
+    applied.push(candidate);
+    current = next;
+    diagnostics = nextDiagnostics;
+  }
+
+  return {
+    changed: applied.length > 0,
+    content: current.content,
+    diff: formatUnifiedDiff(source.content, current.content, path.basename(source.file)),
+    applied,
+    remaining: diagnostics,
+  };
+}
+
+/**
+ * Identifies a fix across passes.
+ */
+function fixKey(diagnostic: Diagnostic): string {
+  return `${diagnostic.code}:${JSON.stringify(diagnostic.path)}:${diagnostic.fix?.description}`;
+}
+
+/**
+ * Checks whether a fix would replace a value that contains a parameter
+ * reference. Validation sees bound values, so such a fix would write the
+ * bound value over the template.
+ */
+function overwritesParameterReference(source: ComboSource, diagnostic: Diagnostic): boolean {
+  return (diagnostic.fix?.edits ?? []).some((edit) => {
+    if (edit.op !== 'replace') {
+      return false;
+    }
+    const value = source.document.getIn(edit.path);
+    return JSON.stringify(value ?? null).includes('${params.');
+  });
+}
+
+/**
+ * Options for migrating a combo skill file.
+ */
+export interface MigrateOptions {
+  /**
+   * Compute the migration without writing the file.
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * Result of migrating a combo skill file.
+ */
+export interface MigrateResult extends MigrationReport {
+  /**
+   * Whether the file content changed.
+   */
+  changed: boolean;
+
+  /**
+   * The migrated file content.
+   */
+  content: string;
+
+  /**
+   * Unified diff from the original content; empty when unchanged.
+   */
+  diff: string;
+}
+
+/**
+ * Upgrades a combo skill file to the current schema version, keeping
+ * comments and formatting.
+ *
+ * Files that use `extends` are migrated on their own; their base files
+ * need to be migrated separately.
+ *
+ * @param filePath - Path to the .combo.yaml or .combo.json file
+ * @param options - Migration options
+ * @returns Migration result; the file is rewritten unless `dryRun` is set
+ */
+export async function migrateCombo(
+  filePath: string,
+  options: MigrateOptions = {}
+): Promise<MigrateResult> {
+  const source = await loadComboSource(filePath);
+
+  const [syntaxError] = getSyntaxDiagnostics(source);
+  if (syntaxError) {
+    throw new Error(formatDiagnostic(syntaxError));
+  }
+
+  const document = source.document.clone();
+  const report = migrateDocument(document);
+  const content =
+    report.toVersion === report.fromVersion
+      ? source.content
+      : printComboSource({ ...source, document });
+  const changed = content !== source.content;
+
+  if (changed && !options.dryRun) {
+    await fs.writeFile(filePath, content, 'utf-8');
+  }
+
+  return {
+    ...report,
+    changed,
+    content,
+    diff: formatUnifiedDiff(source.content, content, path.basename(source.file)),
   };
 }
 
@@ -138,19 +743,33 @@ export async function compile(
   combo: ComboSkillDefinition,
   options: CompileOptions = {}
 ): Promise<CompilationResult> {
-  const { outputDir, skipValidation = false, verbose = false, ...llmOptions } = options;
+  const {
+    outputDir,
+    skipValidation = false,
+    verbose = false,
+    params,
+    sourcePath,
+    ...llmOptions
+  } = options;
 
-  const warnings: string[] = [];
+  const warnings: Diagnostic[] = [];
 
   // Step 1: Validate
   if (!skipValidation) {
-    const validation = validateComboSkill(combo);
+    const validation = validateComboSkill(combo, { params });
     if (!validation.valid) {
       return {
         success: false,
         errors: validation.errors,
+        warnings: validation.warnings,
       };
     }
+    warnings.push(...validation.warnings);
+  }
+
+  // Bind parameters so later steps see concrete values
+  if (combo.parameters || params) {
+    combo = bindParameters(combo, params).combo;
   }
 
   // Step 2: Resolve dependency graph
@@ -158,34 +777,94 @@ export async function compile(
   if (graph.hasCycles) {
     return {
       success: false,
-      errors: [`Circular dependencies detected: ${graph.cycles?.map(c => c.join(' -> ')).join('; ')}`],
+      errors: cycleDiagnostics(graph, combo),
     };
   }
 
   if (verbose) {
     console.log(`[compile] Execution order: ${graph.executionOrder.join(' -> ')}`);
+    console.log(`[compile] Stages: ${graph.stages.map((s) => `[${s.join(', ')}]`).join(' -> ')}`);
   }
 
-  // Step 3: Resolve skills from registries
-  const resolvedSkills = await resolveSkills(combo.skills, { verbose });
+  // Step 3: Resolve skills from registries (and nested combo files)
+  const resolverOptions = {
+    verbose,
+    baseDir: sourcePath ? path.dirname(path.resolve(sourcePath)) : undefined,
+    includeChain: sourcePath ? [path.resolve(sourcePath)] : [],
+  };
+  let resolvedSkills;
+  try {
+    resolvedSkills = await resolveSkills(combo.skills, resolverOptions);
+  } catch (e) {
+    if (e instanceof ComboCycleError) {
+      return {
+        success: false,
+        errors: [createDiagnostic('RES002', 'error', e.message, ['skills'])],
+      };
+    }
+    if (e instanceof ComboReferenceError) {
+      const index = combo.skills.indexOf(e.ref);
+      return {
+        success: false,
+        errors: [
+          createDiagnostic(
+            'RES004',
+            'error',
+            e.message,
+            index === -1 ? ['skills'] : ['skills', index, e.ref.combo ? 'combo' : 'from']
+          ),
+        ],
+      };
+    }
+    throw e;
+  }
 
-  const failedResolutions = resolvedSkills.filter(s => !s.resolved);
-  if (failedResolutions.length > 0) {
-    warnings.push(
-      `Some skills could not be resolved: ${failedResolutions.map(s => s.name).join(', ')}`
-    );
+  resolvedSkills.forEach((skill, index) => {
+    if (!skill.resolved) {
+      warnings.push(
+        createDiagnostic(
+          'RES001',
+          'warning',
+          `Skill could not be resolved: ${skill.name}`,
+          ['skills', index]
+        )
+      );
+    }
+  });
+
+  // Fallback targets outside the combo are resolved like its skills
+  const fallbacks = await resolveFallbacks(combo, resolvedSkills, resolverOptions);
+  warnings.push(...checkResolvedFallbacks(combo, fallbacks).warnings);
+
+  // Step 4: Resolve the combo's tier now that component tiers are known
+  const tierResolution = resolveTier(combo, resolvedSkills);
+  if (!tierResolution.valid) {
+    return {
+      success: false,
+      errors: tierResolution.errors,
+      warnings: tierResolution.warnings,
+    };
   }
+  warnings.push(...tierResolution.warnings);
 
-  // Step 4: Build resolved combo
+  if (verbose) {
+    const how = tierResolution.inferred ? 'inferred' : 'declared';
+    console.log(`[compile] Tier: ${tierResolution.tier} (${how})`);
+  }
+
+  // Step 5: Build resolved combo
   const resolvedCombo: ResolvedComboSkill = {
     ...combo,
+    tier: tierResolution.tier,
     resolvedSkills,
+    fallbacks,
+    stages: graph.stages,
   };
 
-  // Step 5: Compile with LLM
+  // Step 6: Compile with LLM
   const compiled = await compileWithLLM(resolvedCombo, { verbose, ...llmOptions });
 
-  // Step 6: Write output if directory specified
+  // Step 7: Write output if directory specified
   if (outputDir) {
     await writeCompiledSkill(compiled, outputDir);
     if (verbose) {
@@ -219,6 +898,13 @@ async function writeCompiledSkill(
     'utf-8'
   );
 
+  // Write plan.json
+  await fs.writeFile(
+    path.join(outputDir, 'plan.json'),
+    JSON.stringify(skill.plan, null, 2),
+    'utf-8'
+  );
+
   // Write metadata.json
   await fs.writeFile(
     path.join(outputDir, 'metadata.json'),
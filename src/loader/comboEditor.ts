@@ -0,0 +1,220 @@
+/**
+ * Editing combo skill sources.
+ *
+ * This module handles:
+ * - Applying document edits (from diagnostic fixes and migrations) to a
+ *   parsed document
+ * - Printing an edited source while keeping the formatting of untouched lines
+ *
+ * Design notes:
+ * - Edits are applied to YAML nodes, so comments attached to a moved or
+ *   replaced value travel with it
+ * - The YAML printer normalizes spacing (e.g. comment alignment, flow
+ *   sequence padding). To keep the file as the author wrote it, the edited
+ *   document is printed, diffed line by line against the printed original,
+ *   and only changed lines are taken from the printer output
+ * - JSON sources are printed as JSON with two-space indentation
+ */
+
+import YAML, { type Document, type Node } from 'yaml';
+
+import type { DocumentEdit, DocumentPath } from '../types.js';
+import { formatPath } from '../compiler/diagnostics.js';
+import type { ComboSource } from './comboSource.js';
+import { diffLines } from './textDiff.js';
+
+/**
+ * Applies edits to a document, in order.
+ *
+ * @param document - Parsed YAML document; it is modified in place
+ * @param edits - Edits to apply
+ */
+export function applyEdits(document: Document, edits: DocumentEdit[]): void {
+  for (const edit of edits) {
+    applyEdit(document, edit);
+  }
+}
+
+/**
+ * Prints a (possibly edited) source, keeping the original text of every
+ * line the edits did not change.
+ *
+ * @param source - Parsed combo source
+ * @returns The file content
+ */
+export function printComboSource(source: ComboSource): string {
+  const print = isJsonSource(source)
+    ? (document: Document) => JSON.stringify(document.toJS(), null, 2) + '\n'
+    : (document: Document) => document.toString({ lineWidth: 0, flowCollectionPadding: false });
+
+  const printed = print(source.document);
+  const printedOriginal = print(YAML.parseDocument(source.content));
+
+  return preserveFormatting(source.content, printedOriginal, printed);
+}
+
+/**
+ * Checks whether a source was loaded from a JSON file.
+ */
+function isJsonSource(source: ComboSource): boolean {
+  return source.file.endsWith('.json');
+}
+
+/**
+ * Applies a single edit to a document.
+ */
+function applyEdit(document: Document, edit: DocumentEdit): void {
+  switch (edit.op) {
+    case 'remove':
+      getNode(document, edit.path);
+      document.deleteIn(edit.path);
+      return;
+    case 'replace':
+      replaceNode(document, edit.path, edit.value);
+      return;
+    case 'add':
+      insertNode(document, edit.path, document.createNode(edit.value));
+      return;
+    case 'move': {
+      if (renameKey(document, edit.from, edit.path)) {
+        return;
+      }
+      const node = getNode(document, edit.from);
+      document.deleteIn(edit.from);
+      insertNode(document, edit.path, node);
+      return;
+    }
+  }
+}
+
+/**
+ * Gets the node at a path, throwing if there is none.
+ */
+function getNode(document: Document, path: DocumentPath): unknown {
+  const node = path.length === 0 ? document.contents : document.getIn(path, true);
+  if (node === undefined) {
+    throw new Error(`Cannot apply edit: no value at ${formatPath(path) || 'document root'}`);
+  }
+  return node;
+}
+
+/**
+ * Replaces the value at a path, keeping comments attached to the old value.
+ */
+function replaceNode(document: Document, path: DocumentPath, value: unknown): void {
+  const existing = getNode(document, path);
+
+  if (YAML.isScalar(existing) && (value === null || typeof value !== 'object')) {
+    existing.value = value;
+    return;
+  }
+
+  const node = document.createNode(value);
+  if (YAML.isNode(existing)) {
+    copyComments(existing, node);
+  }
+  document.setIn(path, node);
+}
+
+/**
+ * Inserts a node into a sequence (at an index) or a map (under a key).
+ */
+function insertNode(document: Document, path: DocumentPath, node: unknown): void {
+  const key = path[path.length - 1];
+  const parent = getNode(document, path.slice(0, -1));
+
+  if (YAML.isSeq(parent) && typeof key === 'number') {
+    parent.items.splice(Math.min(key, parent.items.length), 0, node);
+  } else if (YAML.isMap(parent)) {
+    parent.set(key, node);
+  } else {
+    throw new Error(`Cannot apply edit: cannot insert at ${formatPath(path)}`);
+  }
+}
+
+/**
+ * Renames a map key in place, if `from` and `to` are sibling keys.
+ *
+ * @returns Whether the edit was a rename
+ */
+function renameKey(document: Document, from: DocumentPath, to: DocumentPath): boolean {
+  const key = from[from.length - 1];
+  const newKey = to[to.length - 1];
+  const parentPath = from.slice(0, -1);
+
+  if (
+    typeof key !== 'string' ||
+    typeof newKey !== 'string' ||
+    parentPath.length !== to.length - 1 ||
+    parentPath.some((segment, i) => segment !== to[i])
+  ) {
+    return false;
+  }
+
+  const parent = getNode(document, parentPath);
+  if (!YAML.isMap(parent)) {
+    return false;
+  }
+
+  const pair = parent.items.find((item) => (YAML.isScalar(item.key) ? item.key.value : item.key) === key);
+  if (!pair) {
+    throw new Error(`Cannot apply edit: no value at ${formatPath(from)}`);
+  }
+
+  if (YAML.isScalar(pair.key)) {
+    pair.key.value = newKey;
+  } else {
+    pair.key = document.createNode(newKey);
+  }
+  return true;
+}
+
+/**
+ * Copies comments and blank-line spacing from one node to another.
+ */
+function copyComments(from: Node, to: Node): void {
+  to.comment = from.comment;
+  to.commentBefore = from.commentBefore;
+  to.spaceBefore = from.spaceBefore;
+}
+
+/**
+ * Merges printer output back into the original text.
+ *
+ * `printedOriginal` is the printer's rendering of the unedited document and
+ * `printed` its rendering of the edited one. When the printer kept the line
+ * structure of the original, unchanged lines are taken from the original and
+ * moved lines keep their original text. Otherwise the printed output is used
+ * as is.
+ */
+function preserveFormatting(original: string, printedOriginal: string, printed: string): string {
+  const originalLines = original.split('\n');
+  const printedOriginalLines = printedOriginal.split('\n');
+
+  if (originalLines.length !== printedOriginalLines.length) {
+    return printed;
+  }
+
+  const diff = diffLines(printedOriginalLines, printed.split('\n'));
+
+  // Original text of deleted lines, so lines that moved keep their formatting
+  const deleted = new Map<string, string[]>();
+  for (const line of diff) {
+    if (line.type === 'delete') {
+      const texts = deleted.get(line.text) ?? [];
+      texts.push(originalLines[line.oldIndex!]);
+      deleted.set(line.text, texts);
+    }
+  }
+
+  const result: string[] = [];
+  for (const line of diff) {
+    if (line.type === 'equal') {
+      result.push(originalLines[line.oldIndex!]);
+    } else if (line.type === 'insert') {
+      result.push(deleted.get(line.text)?.shift() ?? line.text);
+    }
+  }
+
+  return result.join('\n');
+}
@@ -0,0 +1,274 @@
+/**
+ * Source documents for combo skills.
+ *
+ * This module handles:
+ * - Parsing .combo.yaml / .combo.json files while keeping node positions
+ * - Mapping document paths (e.g. ['skills', 2, 'modifiers', 0]) to
+ *   line/column locations
+ * - Reporting YAML syntax errors, documents that are not a mapping and
+ *   outdated schema versions as diagnostics
+ *
+ * Design notes:
+ * - JSON is parsed with the YAML parser too, so both formats get positions
+ * - Map entries are located at their key, sequence items at the item
+ * - Paths that cannot be fully resolved (e.g. a missing field) fall back to
+ *   the deepest node that exists
+ * - `combo` is migrated to the current schema version, while `document`
+ *   stays as written so diagnostics point at the file's own lines
+ */
+
+import * as fs from 'node:fs/promises';
+import YAML, { LineCounter, type Document } from 'yaml';
+
+import type { ComboSkillDefinition, Diagnostic, DiagnosticLocation, DocumentPath } from '../types.js';
+import { createDiagnostic } from '../compiler/diagnostics.js';
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, migrateDocument } from './migrations.js';
+
+/**
+ * A parsed combo skill file with its source positions.
+ */
+export interface ComboSource {
+  /**
+   * Path of the file the combo was loaded from.
+   */
+  file: string;
+
+  /**
+   * The raw file content.
+   */
+  content: string;
+
+  /**
+   * The combo skill definition as plain data, migrated to the current
+   * schema version.
+   */
+  combo: ComboSkillDefinition;
+
+  /**
+   * The schema version the file declares (0 if it has none).
+   */
+  schemaVersion: number;
+
+  /**
+   * The parsed YAML document, including node ranges.
+   */
+  document: Document;
+
+  /**
+   * Line index for converting offsets into line/column positions.
+   */
+  lineCounter: LineCounter;
+}
+
+/**
+ * A 1-based line/column position.
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Parses combo skill content, keeping source positions.
+ *
+ * Syntax errors do not throw; they are available through
+ * `getSyntaxDiagnostics`. Documents from older schema versions are migrated
+ * in memory.
+ *
+ * @param content - File content (YAML or JSON)
+ * @param file - File path used in diagnostics
+ * @returns Parsed combo source
+ */
+export function parseComboSource(content: string, file: string): ComboSource {
+  const lineCounter = new LineCounter();
+  const document = YAML.parseDocument(content, { lineCounter, prettyErrors: false });
+
+  let migrated: Document = document;
+  if (document.errors.length === 0) {
+    try {
+      migrated = document.clone();
+      migrateDocument(migrated);
+    } catch {
+      // Unknown versions are reported by validation; keep the data as written
+      migrated = document;
+    }
+  }
+
+  return {
+    file,
+    content,
+    combo: migrated.toJS() as ComboSkillDefinition,
+    schemaVersion: getSchemaVersion(document.toJS()),
+    document,
+    lineCounter,
+  };
+}
+
+/**
+ * Loads a combo skill file, keeping source positions.
+ *
+ * @param filePath - Path to the .combo.yaml or .combo.json file
+ * @returns Parsed combo source
+ */
+export async function loadComboSource(filePath: string): Promise<ComboSource> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  return parseComboSource(content, filePath);
+}
+
+/**
+ * Converts YAML syntax errors in a source into diagnostics. A document that
+ * parses but is not a mapping (empty, a list or a scalar) is reported too,
+ * so callers can rely on `combo` being an object when there are none.
+ */
+export function getSyntaxDiagnostics(source: ComboSource): Diagnostic[] {
+  const errors = source.document.errors.map((error) => {
+    const { line, col } = source.lineCounter.linePos(error.pos[0]);
+    return {
+      ...createDiagnostic('YAML001', 'error', error.message),
+      file: source.file,
+      line,
+      column: col,
+    };
+  });
+  if (errors.length > 0 || YAML.isMap(source.document.contents)) {
+    return errors;
+  }
+
+  const contents = source.document.contents;
+  const empty = contents === null || (YAML.isScalar(contents) && contents.value === null);
+  const found = empty
+    ? 'the document is empty'
+    : `found ${YAML.isSeq(contents) ? 'a list' : 'a single value'}`;
+  const { line, col } = source.lineCounter.linePos(rangeStart(contents) ?? 0);
+  return [
+    {
+      ...createDiagnostic(
+        'YAML002',
+        'error',
+        `A combo skill must be a mapping of fields such as 'name' and 'skills'; ${found}`
+      ),
+      file: source.file,
+      line,
+      column: col,
+    },
+  ];
+}
+
+/**
+ * Reports a schema version other than the current one.
+ *
+ * Older versions are warnings, since the combo was migrated in memory;
+ * newer versions are errors, since their format is unknown.
+ */
+export function getVersionDiagnostics(source: ComboSource): Diagnostic[] {
+  const version = source.schemaVersion;
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    return [
+      createDiagnostic(
+        'VER002',
+        'error',
+        `Schema version ${version} is newer than the supported version ${CURRENT_SCHEMA_VERSION}; upgrade combo-skills`,
+        ['schemaVersion']
+      ),
+    ];
+  }
+
+  if (version < CURRENT_SCHEMA_VERSION) {
+    const found = version === 0 ? 'No schemaVersion declared' : `Schema version ${version} is outdated`;
+    return [
+      createDiagnostic(
+        'VER001',
+        'warning',
+        `${found}; run 'combo-skills migrate' to upgrade to version ${CURRENT_SCHEMA_VERSION}`,
+        ['schemaVersion']
+      ),
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Finds the source position of a document path.
+ *
+ * @param source - Parsed combo source
+ * @param path - Document path, e.g. ['skills', 2, 'modifiers', 0]
+ * @returns Position of the closest node, or undefined if the document is empty
+ */
+export function locatePath(
+  source: ComboSource,
+  path: DocumentPath
+): SourcePosition | undefined {
+  let node: unknown = source.document.contents;
+  let offset = rangeStart(node);
+
+  for (const segment of path) {
+    if (YAML.isMap(node)) {
+      const pair = node.items.find(
+        (item) => (YAML.isScalar(item.key) ? item.key.value : item.key) === segment
+      );
+      if (!pair) break;
+      offset = rangeStart(pair.key) ?? offset;
+      node = pair.value;
+    } else if (YAML.isSeq(node) && typeof segment === 'number') {
+      const item = node.items[segment];
+      if (item === undefined) break;
+      offset = rangeStart(item) ?? offset;
+      node = item;
+    } else {
+      break;
+    }
+  }
+
+  if (offset === undefined) {
+    return undefined;
+  }
+
+  const { line, col } = source.lineCounter.linePos(offset);
+  return { line, column: col };
+}
+
+/**
+ * Attaches file, line and column to diagnostics that carry a document path.
+ *
+ * Related locations are located against the same source.
+ *
+ * @param diagnostics - Diagnostics from validators
+ * @param source - The source the diagnostics refer to
+ * @returns Located diagnostics
+ */
+export function locateDiagnostics(
+  diagnostics: Diagnostic[],
+  source: ComboSource
+): Diagnostic[] {
+  return diagnostics.map((diagnostic) => {
+    const located = locate(diagnostic, source);
+    return diagnostic.related
+      ? { ...located, related: diagnostic.related.map((related) => locate(related, source)) }
+      : located;
+  });
+}
+
+/**
+ * Attaches file, line and column to a single location.
+ */
+function locate<T extends DiagnosticLocation>(location: T, source: ComboSource): T {
+  if (location.line !== undefined) {
+    return location;
+  }
+  const position = locatePath(source, location.path ?? []);
+  return position
+    ? { ...location, file: source.file, line: position.line, column: position.column }
+    : { ...location, file: source.file };
+}
+
+/**
+ * Start offset of a YAML node, if it has a range.
+ */
+function rangeStart(node: unknown): number | undefined {
+  if (YAML.isNode(node) && node.range) {
+    return node.range[0];
+  }
+  return undefined;
+}
@@ -0,0 +1,118 @@
+/**
+ * Project configuration for combo-skills.
+ *
+ * This module handles:
+ * - Finding combo-skills.config.js (or .mjs) in a directory
+ * - Loading a config module and registering the custom modifiers it
+ *   declares
+ *
+ * Design notes:
+ * - The config is a JavaScript module rather than YAML because modifier
+ *   definitions carry functions (prefix parsers). Its default export is a
+ *   ComboSkillsConfig
+ * - The CLI loads the config from the working directory, or from the file
+ *   given with --config; library users call loadConfig themselves
+ * - Modules are cached by the runtime, so loading the same config twice
+ *   returns the same definitions; those are not registered again
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import type { ModifierDefinition } from '../types.js';
+import { getModifierDefinition, registerModifier } from '../compiler/modifierRegistry.js';
+
+/**
+ * Config file names looked up in a directory, in order.
+ */
+export const CONFIG_FILES = ['combo-skills.config.js', 'combo-skills.config.mjs'];
+
+/**
+ * Contents of a combo-skills config module.
+ */
+export interface ComboSkillsConfig {
+  /**
+   * Custom modifiers to register.
+   */
+  modifiers?: ModifierDefinition[];
+}
+
+/**
+ * A loaded config.
+ */
+export interface LoadedConfig {
+  /**
+   * Path of the config file; undefined if none was found.
+   */
+  path?: string;
+
+  config: ComboSkillsConfig;
+}
+
+/**
+ * Finds the config file in a directory.
+ *
+ * @param dir - Directory to look in
+ * @returns Path of the first of CONFIG_FILES that exists, if any
+ */
+export async function findConfig(dir: string): Promise<string | undefined> {
+  for (const name of CONFIG_FILES) {
+    const candidate = path.join(dir, name);
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      continue;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Loads a config module and registers its custom modifiers.
+ *
+ * @param configPath - Config file; looked up in `dir` if omitted
+ * @param dir - Directory to look for a config file in
+ * @returns The loaded config; empty if no file was given or found
+ * @throws Error if the given file does not exist, or the config is invalid
+ */
+export async function loadConfig(
+  configPath?: string,
+  dir: string = process.cwd()
+): Promise<LoadedConfig> {
+  let file: string | undefined;
+  if (configPath) {
+    file = path.resolve(configPath);
+    try {
+      await fs.access(file);
+    } catch {
+      throw new Error(`Config file not found: ${file}`);
+    }
+  } else {
+    file = await findConfig(dir);
+  }
+  if (!file) {
+    return { config: {} };
+  }
+
+  const module = (await import(pathToFileURL(file).href)) as { default?: unknown };
+  const config = (module.default ?? {}) as ComboSkillsConfig;
+
+  if (config.modifiers !== undefined && !Array.isArray(config.modifiers)) {
+    throw new Error(`Invalid config ${file}: 'modifiers' must be an array of modifier definitions`);
+  }
+
+  for (const definition of config.modifiers ?? []) {
+    if (getModifierDefinition(definition.type) === definition) {
+      continue;
+    }
+    try {
+      registerModifier(definition);
+    } catch (e) {
+      throw new Error(`Invalid config ${file}: ${(e as Error).message}`);
+    }
+  }
+
+  return { path: file, config };
+}
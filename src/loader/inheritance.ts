@@ -0,0 +1,289 @@
+/**
+ * Combo inheritance via `extends`.
+ *
+ * This module handles:
+ * - Loading the base combo named by `extends` (relative to the child file)
+ * - Merging base and child definitions
+ * - Detecting inheritance cycles
+ *
+ * Merge rules (child wins unless noted):
+ * - Scalars (`name`, `description`, `version`, `intent`), `primitives`
+ *   and `composition` are replaced by the child when present
+ * - `skills` are keyed by alias (or name). A child skill with the same key
+ *   is merged over the base skill; new skills are appended in child order.
+ *   Relative nested combo paths of base skills are rewritten to resolve
+ *   from the child's directory, so they keep pointing at the same files
+ * - `modifiers` (combo-level and per skill) are keyed by modifier type.
+ *   A child modifier replaces the base modifier of the same type in place;
+ *   new types are appended
+ * - `constraints.ordering` and `constraints.assumptions` are unions
+ * - `constraints.data_flow` is keyed by `from -> to`; child mappings are
+ *   merged over base mappings
+ * - `parameters` are keyed by name; a child parameter replaces the base one
+ * - `metadata` is merged field by field, with `tags` as a union
+ */
+
+import * as path from 'node:path';
+
+import type {
+  ComboConstraints,
+  ComboParameter,
+  ComboMetadata,
+  ComboSkillDefinition,
+  DataFlowMapping,
+  Modifier,
+  SkillReference,
+} from '../types.js';
+import { formatDiagnostic } from '../compiler/diagnostics.js';
+import { getComboReference } from '../registry/skillsResolver.js';
+import { loadComboSource, getSyntaxDiagnostics, type ComboSource } from './comboSource.js';
+
+/**
+ * Resolves `extends` for a loaded combo, returning the fully merged definition.
+ *
+ * @param source - Parsed combo source
+ * @returns Merged combo definition without an `extends` field
+ */
+export async function resolveInheritance(source: ComboSource): Promise<ComboSkillDefinition> {
+  return resolveChain(source, [path.resolve(source.file)]);
+}
+
+/**
+ * Recursively resolves the inheritance chain of a combo.
+ */
+async function resolveChain(
+  source: ComboSource,
+  chain: string[]
+): Promise<ComboSkillDefinition> {
+  const { extends: basePath, ...child } = source.combo;
+  if (!basePath) {
+    return child;
+  }
+
+  const resolvedBase = path.resolve(path.dirname(source.file), basePath);
+  if (chain.includes(resolvedBase)) {
+    const cycle = [...chain.slice(chain.indexOf(resolvedBase)), resolvedBase];
+    throw new Error(
+      `Inheritance cycle detected: ${cycle.map((p) => path.basename(p)).join(' -> ')}`
+    );
+  }
+
+  let baseSource: ComboSource;
+  try {
+    baseSource = await loadComboSource(resolvedBase);
+  } catch {
+    throw new Error(`Base combo not found: ${basePath}`);
+  }
+
+  const [syntaxError] = getSyntaxDiagnostics(baseSource);
+  if (syntaxError) {
+    throw new Error(formatDiagnostic(syntaxError));
+  }
+
+  const base = await resolveChain(baseSource, [...chain, resolvedBase]);
+  if (base.skills) {
+    base.skills = rebaseSkills(base.skills, path.dirname(resolvedBase), path.dirname(source.file));
+  }
+  return mergeComboDefinitions(base, child);
+}
+
+/**
+ * Rewrites relative nested combo paths (`combo:`, or a path in `from:`)
+ * written in `fromDir` so they resolve to the same files from `toDir`.
+ * Absolute and templated paths are left alone.
+ */
+function rebaseSkills(skills: SkillReference[], fromDir: string, toDir: string): SkillReference[] {
+  return skills.map((skill) => {
+    const comboPath = getComboReference(skill);
+    if (!comboPath || path.isAbsolute(comboPath) || comboPath.includes('${')) {
+      return skill;
+    }
+    const rebased = path
+      .relative(path.resolve(toDir), path.resolve(fromDir, comboPath))
+      .split(path.sep)
+      .join('/');
+    // Keep the `./` so a `from:` value is still recognized as a path
+    const value = rebased.startsWith('../') ? rebased : `./${rebased}`;
+    return skill.combo ? { ...skill, combo: value } : { ...skill, from: value };
+  });
+}
+
+/**
+ * Merges a child combo definition over a base definition.
+ *
+ * @param base - The base (already merged) definition
+ * @param child - The child definition
+ * @returns Merged definition
+ */
+export function mergeComboDefinitions(
+  base: ComboSkillDefinition,
+  child: Partial<ComboSkillDefinition>
+): ComboSkillDefinition {
+  const merged: ComboSkillDefinition = { ...base, ...stripUndefined(child) };
+  delete merged.extends;
+
+  merged.skills = mergeSkills(base.skills ?? [], child.skills ?? []);
+
+  if (base.modifiers || child.modifiers) {
+    merged.modifiers = mergeModifiers(base.modifiers ?? [], child.modifiers ?? []);
+  }
+
+  if (base.parameters || child.parameters) {
+    merged.parameters = mergeParameters(base.parameters ?? [], child.parameters ?? []);
+  }
+
+  if (base.constraints || child.constraints) {
+    merged.constraints = mergeConstraints(base.constraints ?? {}, child.constraints ?? {});
+  }
+
+  if (base.metadata || child.metadata) {
+    merged.metadata = mergeMetadata(base.metadata ?? {}, child.metadata ?? {});
+  }
+
+  return merged;
+}
+
+/**
+ * Merges skill lists keyed by alias (or name).
+ */
+function mergeSkills(base: SkillReference[], child: SkillReference[]): SkillReference[] {
+  const result = base.map((skill) => ({ ...skill }));
+
+  for (const skill of child) {
+    const index = result.findIndex((s) => skillKey(s) === skillKey(skill));
+    if (index === -1) {
+      result.push({ ...skill });
+      continue;
+    }
+
+    const existing = result[index];
+    const merged: SkillReference = { ...existing, ...stripUndefined(skill) };
+    if (existing.modifiers || skill.modifiers) {
+      merged.modifiers = mergeModifiers(existing.modifiers ?? [], skill.modifiers ?? []);
+    }
+    result[index] = merged;
+  }
+
+  return result;
+}
+
+/**
+ * Merges modifier lists keyed by modifier type.
+ */
+function mergeModifiers(base: Modifier[], child: Modifier[]): Modifier[] {
+  const result = [...base];
+
+  for (const modifier of child) {
+    const type = modifierKey(modifier);
+    const index = result.findIndex((m) => modifierKey(m) === type);
+    if (index === -1) {
+      result.push(modifier);
+    } else {
+      result[index] = modifier;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Merges parameter declarations keyed by name.
+ */
+function mergeParameters(base: ComboParameter[], child: ComboParameter[]): ComboParameter[] {
+  const result = [...base];
+
+  for (const param of child) {
+    const index = result.findIndex((p) => p.name === param.name);
+    if (index === -1) {
+      result.push(param);
+    } else {
+      result[index] = param;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Merges constraint blocks.
+ */
+function mergeConstraints(base: ComboConstraints, child: ComboConstraints): ComboConstraints {
+  const merged: ComboConstraints = { ...base, ...stripUndefined(child) };
+
+  if (base.ordering || child.ordering) {
+    merged.ordering = union(base.ordering ?? [], child.ordering ?? []);
+  }
+  if (base.assumptions || child.assumptions) {
+    merged.assumptions = union(base.assumptions ?? [], child.assumptions ?? []);
+  }
+  if (base.data_flow || child.data_flow) {
+    merged.data_flow = mergeDataFlow(base.data_flow ?? [], child.data_flow ?? []);
+  }
+
+  return merged;
+}
+
+/**
+ * Merges data flow mappings keyed by `from -> to`.
+ */
+function mergeDataFlow(base: DataFlowMapping[], child: DataFlowMapping[]): DataFlowMapping[] {
+  const result = base.map((flow) => ({ ...flow }));
+
+  for (const flow of child) {
+    const index = result.findIndex((f) => f.from === flow.from && f.to === flow.to);
+    if (index === -1) {
+      result.push({ ...flow });
+    } else if (result[index].mapping || flow.mapping) {
+      result[index] = {
+        ...result[index],
+        mapping: { ...result[index].mapping, ...flow.mapping },
+      };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Merges metadata field by field, with tags as a union.
+ */
+function mergeMetadata(base: ComboMetadata, child: ComboMetadata): ComboMetadata {
+  const merged: ComboMetadata = { ...base, ...stripUndefined(child) };
+  if (base.tags || child.tags) {
+    merged.tags = union(base.tags ?? [], child.tags ?? []);
+  }
+  return merged;
+}
+
+/**
+ * Key used to match skills between base and child.
+ */
+function skillKey(skill: SkillReference): string {
+  return skill.alias ?? skill.name;
+}
+
+/**
+ * Key used to match modifiers between base and child.
+ */
+function modifierKey(modifier: Modifier): string {
+  if (typeof modifier === 'string') {
+    return modifier.split(':')[0];
+  }
+  return Object.keys(modifier)[0] ?? '';
+}
+
+/**
+ * Ordered union of two lists.
+ */
+function union<T>(base: T[], child: T[]): T[] {
+  return [...base, ...child.filter((item) => !base.includes(item))];
+}
+
+/**
+ * Drops keys whose value is undefined so they don't shadow base values.
+ */
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
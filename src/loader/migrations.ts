@@ -0,0 +1,206 @@
+/**
+ * Schema versions and migrations for combo definitions.
+ *
+ * This module handles:
+ * - Reading the `schemaVersion` of a combo document
+ * - The registry of migrations between consecutive schema versions
+ * - Upgrading a document to the current version, step by step
+ *
+ * Design notes:
+ * - Documents without `schemaVersion` predate versioning and are version 0
+ * - Each migration upgrades exactly one version and returns document edits,
+ *   so migrated files keep their comments and formatting outside the
+ *   values a migration rewrites
+ * - Documents are migrated in memory whenever they are loaded; the
+ *   `migrate` command writes the result back to disk
+ * - A change to modifier or constraint syntax must bump
+ *   CURRENT_SCHEMA_VERSION and add a migration here
+ */
+
+import YAML, { type Document } from 'yaml';
+
+import type { DocumentEdit, DocumentPath } from '../types.js';
+import { applyEdits } from './comboEditor.js';
+
+/**
+ * The schema version written by this version of combo-skills.
+ */
+export const CURRENT_SCHEMA_VERSION = 1;
+
+/**
+ * A change made by a migration.
+ */
+export interface MigrationChange {
+  /**
+   * Human-readable description of the change.
+   */
+  description: string;
+
+  /**
+   * Edits that make the change.
+   */
+  edits: DocumentEdit[];
+}
+
+/**
+ * An upgrade from one schema version to the next.
+ */
+export interface Migration {
+  from: number;
+  to: number;
+
+  /**
+   * Summary of what the migration upgrades.
+   */
+  description: string;
+
+  /**
+   * Computes the changes for a document at version `from`.
+   *
+   * @param combo - The document as plain data
+   * @returns Changes to apply; empty if the document needs none
+   */
+  migrate(combo: Record<string, unknown>): MigrationChange[];
+}
+
+/**
+ * Result of migrating a document.
+ */
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+
+  /**
+   * Changes made, in order, with the migration that made them.
+   */
+  changes: Array<MigrationChange & { migration: Migration }>;
+}
+
+/**
+ * Registered migrations, one per version step.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    from: 0,
+    to: 1,
+    description: 'Convert map-form modifiers to lists',
+    migrate(combo) {
+      const changes: MigrationChange[] = [];
+
+      // Early drafts of specs/003-skill-modifiers wrote structured modifiers
+      // as one map (`modifiers: { retry: { attempts: 3 } }`)
+      const convert = (modifiers: unknown, path: DocumentPath) => {
+        if (!isPlainObject(modifiers)) return;
+        changes.push({
+          description: `Converted ${path.join('.')} from a map to a list`,
+          edits: [
+            {
+              op: 'replace',
+              path,
+              value: Object.entries(modifiers).map(([type, config]) =>
+                config === null
+                  ? type
+                  : isPlainObject(config)
+                    ? { [type]: config }
+                    : `${type}:${config}`
+              ),
+            },
+          ],
+        });
+      };
+
+      convert(combo.modifiers, ['modifiers']);
+      if (Array.isArray(combo.skills)) {
+        combo.skills.forEach((skill, index) => {
+          if (isPlainObject(skill)) {
+            convert(skill.modifiers, ['skills', index, 'modifiers']);
+          }
+        });
+      }
+
+      return changes;
+    },
+  },
+];
+
+/**
+ * Reads the schema version of a combo document.
+ *
+ * @param combo - The document as plain data
+ * @returns The declared version, or 0 for documents that predate versioning
+ */
+export function getSchemaVersion(combo: unknown): number {
+  if (isPlainObject(combo) && typeof combo.schemaVersion === 'number') {
+    return combo.schemaVersion;
+  }
+  return 0;
+}
+
+/**
+ * Upgrades a document to a schema version, applying each migration in turn.
+ *
+ * Documents at or above the target version are left unchanged.
+ *
+ * @param document - Parsed YAML document; it is modified in place
+ * @param targetVersion - Version to upgrade to
+ * @returns The versions and the changes made
+ */
+export function migrateDocument(
+  document: Document,
+  targetVersion: number = CURRENT_SCHEMA_VERSION
+): MigrationReport {
+  const fromVersion = getSchemaVersion(document.toJS());
+  const changes: MigrationReport['changes'] = [];
+
+  let version = fromVersion;
+  while (version < targetVersion) {
+    const migration = MIGRATIONS.find((m) => m.from === version);
+    if (!migration) {
+      throw new Error(`No migration from schema version ${version}`);
+    }
+
+    const data = document.toJS();
+    for (const change of migration.migrate(isPlainObject(data) ? data : {})) {
+      applyEdits(document, change.edits);
+      changes.push({ ...change, migration });
+    }
+    version = migration.to;
+  }
+
+  if (version !== fromVersion) {
+    setSchemaVersion(document, version);
+  }
+
+  return { fromVersion, toVersion: version, changes };
+}
+
+/**
+ * Sets `schemaVersion`, adding it as the first field if missing.
+ *
+ * A comment above the first field stays at the top of the file.
+ */
+function setSchemaVersion(document: Document, version: number): void {
+  const root = document.contents;
+  if (!YAML.isMap(root)) {
+    return;
+  }
+  if (root.has('schemaVersion')) {
+    root.set('schemaVersion', version);
+    return;
+  }
+
+  const pair = document.createPair('schemaVersion', version);
+  const first = root.items[0]?.key;
+  if (YAML.isNode(first) && YAML.isNode(pair.key) && first.commentBefore) {
+    pair.key.commentBefore = first.commentBefore;
+    first.commentBefore = undefined;
+  }
+  root.items.unshift(pair);
+}
+
+/**
+ * Checks for a plain (non-array) object.
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
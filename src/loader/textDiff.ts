@@ -0,0 +1,144 @@
+/**
+ * Line-based text diffs.
+ *
+ * This module handles:
+ * - Computing a line diff between two texts
+ * - Formatting a diff as a unified diff for review (e.g. `fix --dry-run`)
+ *
+ * Design notes:
+ * - The diff is a plain longest-common-subsequence over lines; combo files
+ *   are small, so the quadratic table is not a concern
+ */
+
+/**
+ * One line of a diff.
+ */
+export interface DiffLine {
+  type: 'equal' | 'delete' | 'insert';
+  text: string;
+
+  /**
+   * 0-based index in the old text (equal and delete lines).
+   */
+  oldIndex?: number;
+
+  /**
+   * 0-based index in the new text (equal and insert lines).
+   */
+  newIndex?: number;
+}
+
+/**
+ * Computes a line diff between two lists of lines.
+ *
+ * @param oldLines - Lines of the original text
+ * @param newLines - Lines of the changed text
+ * @returns Diff lines in order; deletions precede insertions within a change
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  // lcs[i][j] = length of the LCS of oldLines[i..] and newLines[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        oldLines[i] === newLines[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[i] === newLines[j]) {
+      result.push({ type: 'equal', text: oldLines[i], oldIndex: i++, newIndex: j++ });
+    } else if (j >= m || (i < n && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      result.push({ type: 'delete', text: oldLines[i], oldIndex: i++ });
+    } else {
+      result.push({ type: 'insert', text: newLines[j], newIndex: j++ });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Formats the difference between two texts as a unified diff.
+ *
+ * @param oldText - Original text
+ * @param newText - Changed text
+ * @param file - File name used in the `---`/`+++` header
+ * @param context - Number of unchanged lines around each change
+ * @returns The unified diff, or an empty string if the texts are equal
+ */
+export function formatUnifiedDiff(
+  oldText: string,
+  newText: string,
+  file: string,
+  context = 3
+): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const output = [`--- a/${file}`, `+++ b/${file}`];
+
+  let index = 0;
+  while (index < lines.length) {
+    // Find the next change
+    while (index < lines.length && lines[index].type === 'equal') index++;
+    if (index >= lines.length) break;
+
+    // Extend the hunk while changes are within 2 * context lines of each other
+    const start = Math.max(0, index - context);
+    let end = index;
+    let lastChange = index;
+    while (end < lines.length && end - lastChange <= 2 * context) {
+      if (lines[end].type !== 'equal') lastChange = end;
+      end++;
+    }
+    end = Math.min(lines.length, lastChange + context + 1);
+
+    const hunk = lines.slice(start, end);
+    output.push(formatHunkHeader(hunk, lines, start));
+    for (const line of hunk) {
+      const marker = line.type === 'equal' ? ' ' : line.type === 'delete' ? '-' : '+';
+      output.push(`${marker}${line.text}`);
+    }
+
+    index = end;
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * Splits text into lines, without a trailing empty line for the final newline.
+ */
+function splitLines(text: string): string[] {
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Formats the `@@ -a,b +c,d @@` header of a hunk.
+ */
+function formatHunkHeader(hunk: DiffLine[], lines: DiffLine[], start: number): string {
+  const oldCount = hunk.filter((l) => l.type !== 'insert').length;
+  const newCount = hunk.filter((l) => l.type !== 'delete').length;
+
+  // Line numbers of the hunk start, counted from the lines before it
+  const before = lines.slice(0, start);
+  const oldStart = before.filter((l) => l.type !== 'insert').length + (oldCount > 0 ? 1 : 0);
+  const newStart = before.filter((l) => l.type !== 'delete').length + (newCount > 0 ? 1 : 0);
+
+  return `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`;
+}
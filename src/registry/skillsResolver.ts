@@ -6,13 +6,24 @@
  *
  * Design notes:
  * - Skills are resolved by name and registry
+ * - A skill can also be another combo file (`combo:` or a path in `from:`);
+ *   it is loaded and its own skills are resolved recursively
  * - We cache resolved skills to avoid redundant fetches
- * - Resolution failures are non-fatal; we can compile with partial metadata
+ * - Resolution failures are non-fatal; we can compile with partial metadata.
+ *   The exceptions are combos that include each other, and nested combo
+ *   files that are missing or cannot be loaded, which are errors
  *
  * TODO: Implement actual `npx skills` integration
  */
 
-import type { SkillReference, ResolvedSkill } from '../types.js';
+import * as path from 'node:path';
+
+import type { ComboSkillDefinition, SkillReference, ResolvedSkill } from '../types.js';
+import { formatDiagnostic } from '../compiler/diagnostics.js';
+import { bindParameters } from '../compiler/parameterBinder.js';
+import { resolveTier } from '../compiler/tierResolver.js';
+import { loadComboSource, getSyntaxDiagnostics, type ComboSource } from '../loader/comboSource.js';
+import { resolveInheritance } from '../loader/inheritance.js';
 
 /**
  * Options for skill resolution.
@@ -32,6 +43,67 @@ export interface ResolverOptions {
    * Enable verbose logging.
    */
   verbose?: boolean;
+
+  /**
+   * Directory that relative combo references are resolved against.
+   * @default process.cwd()
+   */
+  baseDir?: string;
+
+  /**
+   * Absolute paths of the combo files currently being resolved, outermost
+   * first. Used to detect combos that include each other.
+   */
+  includeChain?: string[];
+}
+
+/**
+ * Raised when combos include each other in a cycle.
+ */
+export class ComboCycleError extends Error {
+  constructor(public readonly cycle: string[]) {
+    super(`Circular combo reference: ${cycle.map((p) => path.basename(p)).join(' -> ')}`);
+    this.name = 'ComboCycleError';
+  }
+}
+
+/**
+ * Raised when a nested combo file is missing or cannot be loaded.
+ */
+export class ComboReferenceError extends Error {
+  /**
+   * @param message - What went wrong
+   * @param ref - The reference that includes the combo; for a combo nested
+   *   deeper, the reference of the outermost combo that leads to it
+   */
+  constructor(
+    message: string,
+    public readonly ref: SkillReference
+  ) {
+    super(message);
+    this.name = 'ComboReferenceError';
+  }
+}
+
+/**
+ * Matches `from` values that name a combo file rather than a registry.
+ */
+const COMBO_PATH_REGEX = /^\.{1,2}\/|\.combo\.(ya?ml|json)$/;
+
+/**
+ * Returns the combo file a skill reference includes, if any.
+ *
+ * @param ref - Skill reference from combo definition
+ * @returns Path from `combo:`, or from `from:` when it names a combo file
+ */
+export function getComboReference(ref: SkillReference): string | undefined {
+  if (ref.combo) {
+    return ref.combo;
+  }
+  if (ref.from && COMBO_PATH_REGEX.test(ref.from)) {
+    return ref.from;
+  }
+  return undefined;
 }
 
 /**
@@ -52,6 +124,11 @@ export async function resolveSkill(
 ): Promise<ResolvedSkill> {
   const { cache = true, verbose = false } = options;
 
+  const comboPath = getComboReference(ref);
+  if (comboPath) {
+    return resolveComboReference(ref, comboPath, options);
+  }
+
   const cacheKey = `${ref.from ?? 'skills.sh'}:${ref.name}:${ref.version ?? 'latest'}`;
 
   if (cache && skillCache.has(cacheKey)) {
@@ -98,6 +175,102 @@ export async function resolveSkill(
   return resolved;
 }
 
+/**
+ * Resolves a skill reference that includes another combo.
+ *
+ * The nested combo is loaded (including `extends`), bound with its parameter
+ * defaults, and its own skills are resolved recursively. Its description,
+ * primitives and (declared or inferred) tier describe the resulting skill.
+ *
+ * @param ref - Skill reference from combo definition
+ * @param comboPath - Path of the nested combo file
+ * @param options - Resolver options
+ * @returns Resolved skill describing the nested combo
+ */
+async function resolveComboReference(
+  ref: SkillReference,
+  comboPath: string,
+  options: ResolverOptions
+): Promise<ResolvedSkill> {
+  const { cache = true, verbose = false, includeChain = [] } = options;
+
+  const filePath = path.resolve(options.baseDir ?? process.cwd(), comboPath);
+
+  if (includeChain.includes(filePath)) {
+    throw new ComboCycleError([...includeChain.slice(includeChain.indexOf(filePath)), filePath]);
+  }
+
+  const cacheKey = `combo:${filePath}:${ref.name}`;
+  if (cache && skillCache.has(cacheKey)) {
+    if (verbose) {
+      console.log(`[skillsResolver] Cache hit: ${cacheKey}`);
+    }
+    return skillCache.get(cacheKey)!;
+  }
+
+  if (verbose) {
+    console.log(`[skillsResolver] Resolving nested combo: ${ref.name} from ${comboPath}`);
+  }
+
+  let source: ComboSource;
+  try {
+    source = await loadComboSource(filePath);
+  } catch (e) {
+    const reason =
+      (e as NodeJS.ErrnoException).code === 'ENOENT' ? 'file not found' : (e as Error).message;
+    throw new ComboReferenceError(`Cannot load nested combo ${filePath}: ${reason}`, ref);
+  }
+  const [syntaxError] = getSyntaxDiagnostics(source);
+  if (syntaxError) {
+    throw new ComboReferenceError(`Invalid nested combo: ${formatDiagnostic(syntaxError)}`, ref);
+  }
+
+  let merged: ComboSkillDefinition;
+  try {
+    merged = await resolveInheritance(source);
+  } catch (e) {
+    throw new ComboReferenceError(`Invalid nested combo ${filePath}: ${(e as Error).message}`, ref);
+  }
+
+  const binding = bindParameters(merged);
+  if (!binding.valid) {
+    throw new ComboReferenceError(
+      `Nested combo ${comboPath} needs parameters: ${binding.errors.map((d) => d.message).join('; ')}`,
+      ref
+    );
+  }
+  const nested = binding.combo;
+
+  const nestedSkills = await resolveSkills(nested.skills ?? [], {
+    ...options,
+    baseDir: path.dirname(filePath),
+    includeChain: [...includeChain, filePath],
+  });
+
+  const resolved: ResolvedSkill = {
+    name: ref.name,
+    from: comboPath,
+    version: nested.version ?? '0.1.0',
+    description: nested.description,
+    resolved: nestedSkills.every((s) => s.resolved),
+    primitives: nested.primitives,
+    tier: resolveTier(nested, nestedSkills).tier,
+    metadata: {
+      resolvedAt: new Date().toISOString(),
+      source: 'combo',
+      file: filePath,
+      combo: nested.name,
+      skills: nestedSkills.map((s) => s.name),
+    },
+  };
+
+  if (cache) {
+    skillCache.set(cacheKey, resolved);
+  }
+
+  return resolved;
+}
+
 /**
  * Resolves multiple skills in parallel.
  *
@@ -127,6 +300,12 @@ export async function resolveSkills(
     const result = results[i];
     if (result.status === 'fulfilled') {
       resolved.push(result.value);
+    } else if (result.reason instanceof ComboCycleError) {
+      // Include cycles are definition errors, not resolution failures
+      throw result.reason;
+    } else if (result.reason instanceof ComboReferenceError) {
+      // So are broken nested combos; report them at this level's reference
+      throw new ComboReferenceError(result.reason.message, refs[i]);
     } else {
       failed.push(refs[i].name);
       // Add a placeholder for failed resolution
@@ -0,0 +1,746 @@
+/**
+ * Runtime for modifiers.
+ *
+ * This module handles:
+ * - Wrapping an async skill invocation with a stack of parsed modifiers
+ * - Middleware for the built-in modifiers: retry with backoff, timeout,
+ *   token-bucket rate limiting, TTL cache, auth, logging, fallback and
+ *   dry-run, plus bounded parallelism and batching for collections
+ * - Resolving secret references for `auth`
+ *
+ * Design notes:
+ * - Middleware takes the ParsedModifier objects from parseModifier (or
+ *   effectiveModifiers), so what is validated is exactly what runs;
+ *   defaults are those of the JSON Schema and RETRY_DEFAULTS
+ * - Modifiers are applied in order: the first wraps the invocation
+ *   itself and each later one wraps the ones before it. This is the
+ *   order the stacking guidelines assume, e.g. `retry:3` then `cache:5m`
+ *   caches the result after retries
+ * - The exception is `timeout`, which always applies to each attempt of a
+ *   `retry`, whichever is listed first. The latency estimate and MOD008
+ *   count runs × timeout, so a timeout around all retries would cut them
+ *   short of what validation promised
+ * - Cancellation uses AbortSignal. Every invocation receives a signal;
+ *   `timeout` aborts it, and waits (backoff, rate limits) stop when it is
+ *   aborted
+ * - Rate limits declared on the combo are shared by every skill wrapped by
+ *   the same runtime, matching their `stack` inheritance; other state
+ *   (caches, concurrency slots) belongs to one wrapped skill
+ * - `batch` and `parallel` only shape how invokeAll runs a collection;
+ *   `parallel` also bounds concurrent invoke calls
+ */
+
+import * as fs from 'node:fs/promises';
+
+import type {
+  AuthModifierConfig,
+  BatchModifierConfig,
+  CacheModifierConfig,
+  DryRunModifierConfig,
+  EffectiveModifier,
+  FallbackModifierConfig,
+  LogModifierConfig,
+  ModifierType,
+  ParallelModifierConfig,
+  ParsedModifier,
+  RateLimitModifierConfig,
+  RetryModifierConfig,
+  SecretRef,
+} from '../types.js';
+import { formatDuration, getDuration, parseDuration } from '../compiler/durations.js';
+import { RETRY_DEFAULTS } from '../compiler/modifierValidator.js';
+import { parseSecretRef, redactJson } from '../compiler/secrets.js';
+
+/**
+ * Context passed to a skill invocation by the runtime.
+ */
+export interface InvocationContext {
+  /**
+   * Aborted when the invocation times out or the caller cancels it.
+   */
+  signal: AbortSignal;
+
+  /**
+   * Run number within the innermost `retry`, starting at 1.
+   */
+  attempt: number;
+
+  /**
+   * Whether a `dry-run` modifier applies; the skill should skip side
+   * effects and describe what it would do.
+   */
+  dryRun: boolean;
+
+  /**
+   * Credentials from an `auth` modifier.
+   */
+  auth?: {
+    type?: AuthModifierConfig['type'];
+    secret?: string;
+  };
+}
+
+/**
+ * An async skill invocation.
+ */
+export type SkillInvocation<I = unknown, O = unknown> = (
+  input: I,
+  context: InvocationContext
+) => Promise<O>;
+
+/**
+ * Wraps an invocation with one modifier's behavior.
+ */
+export type Middleware = (next: SkillInvocation) => SkillInvocation;
+
+/**
+ * Creates the middleware for one modifier.
+ * @throws Error if the runtime cannot apply the modifier
+ */
+export type MiddlewareFactory = (modifier: ParsedModifier, runtime: MiddlewareRuntime) => Middleware;
+
+/**
+ * What a middleware factory can use from the runtime.
+ */
+export interface MiddlewareRuntime {
+  options: ModifierRuntimeOptions;
+
+  /**
+   * Name of the wrapped skill, for logs and messages.
+   */
+  skill?: string;
+
+  /**
+   * Emits a log entry through the runtime's logger.
+   */
+  log(entry: Omit<RuntimeLogEntry, 'skill'>): void;
+
+  /**
+   * State shared by the runtime's wrapped skills, created on first use.
+   */
+  shared<T>(key: string, create: () => T): T;
+}
+
+/**
+ * A log entry emitted by `log` and `dry-run`.
+ */
+export interface RuntimeLogEntry {
+  level: LogLevel;
+  event: 'start' | 'success' | 'error' | 'dry-run';
+  skill?: string;
+  input?: unknown;
+  output?: unknown;
+  error?: string;
+  durationMs?: number;
+}
+
+/**
+ * Severity of a log entry, as in the `log` modifier's `level`.
+ */
+type LogLevel = NonNullable<LogModifierConfig['level']>;
+
+/**
+ * Options for createModifierRuntime.
+ */
+export interface ModifierRuntimeOptions {
+  /**
+   * Invocations of fallback targets, by the skill key or name the
+   * `fallback` modifier uses.
+   */
+  skills?: Record<string, SkillInvocation>;
+
+  /**
+   * Runs in place of a skill under `dry-run`. Without it, the skill itself
+   * runs with `dryRun` set in its context.
+   */
+  simulate?: SkillInvocation;
+
+  /**
+   * Receives log entries. Defaults to the console.
+   */
+  logger?: (entry: RuntimeLogEntry) => void;
+
+  /**
+   * Resolves the secret an `auth` modifier references. Defaults to
+   * resolveSecretRef, which reads `env:` and `file:` references.
+   */
+  resolveSecret?: (ref: SecretRef) => Promise<string>;
+
+  /**
+   * Middleware for custom modifiers, or replacements for built-in ones.
+   */
+  middleware?: Partial<Record<ModifierType, MiddlewareFactory>>;
+}
+
+/**
+ * Options for a single call of a wrapped skill.
+ */
+export interface InvokeOptions {
+  /**
+   * Cancels the call.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A skill invocation with its modifiers applied.
+ */
+export interface WrappedSkill<I = unknown, O = unknown> {
+  /**
+   * Invokes the skill once.
+   */
+  invoke(input: I, options?: InvokeOptions): Promise<O>;
+
+  /**
+   * Invokes the skill for each input: in groups under `batch`, with
+   * bounded concurrency under `parallel`, otherwise one at a time.
+   *
+   * @returns Outputs in input order
+   */
+  invokeAll(inputs: I[], options?: InvokeOptions): Promise<O[]>;
+}
+
+/**
+ * Runs skills with modifiers applied.
+ */
+export interface ModifierRuntime {
+  /**
+   * Wraps a skill invocation with modifiers.
+   *
+   * @param invoke - The skill invocation
+   * @param modifiers - Modifiers from parseModifier or effectiveModifiers,
+   *   innermost first; a `timeout` always applies to each `retry` attempt
+   * @param skill - Name of the skill, for logs and messages
+   * @throws Error if a modifier has no middleware, or a fallback target
+   *   has no invocation in `options.skills`
+   */
+  wrap<I, O>(invoke: SkillInvocation<I, O>, modifiers: ParsedModifier[], skill?: string): WrappedSkill<I, O>;
+
+  /**
+   * Drops shared state, such as combo-level rate limits.
+   */
+  reset(): void;
+}
+
+/**
+ * Raised when an invocation takes longer than its `timeout`.
+ */
+export class SkillTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Timed out after ${formatDuration(timeoutMs)}`);
+    this.name = 'SkillTimeoutError';
+  }
+}
+
+/**
+ * Runtime defaults for settings the schema leaves open.
+ */
+export const RUNTIME_DEFAULTS = {
+  /**
+   * Window of a rate limit given as a bare count, e.g. `rate-limit:10`.
+   */
+  rateLimitWindow: '1s',
+
+  /**
+   * Concurrency of `parallel` without a value, as in the schema.
+   */
+  concurrency: 5,
+
+  /**
+   * Level of `log` without a value, as in the schema.
+   */
+  logLevel: 'info',
+
+  /**
+   * What `log` includes when `include` is not set. Inputs and outputs are
+   * left out so data is only logged when asked for.
+   */
+  logInclude: ['timing', 'errors'],
+} as const;
+
+/**
+ * Log levels, least severe first.
+ */
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Matches `${input.path}` placeholders in cache key templates.
+ */
+const CACHE_KEY_PLACEHOLDER_REGEX = /\$\{input(?:\.([A-Za-z0-9_.]+))?\}/g;
+
+/**
+ * Middleware of the built-in modifiers.
+ */
+export const BUILTIN_MIDDLEWARE: Record<string, MiddlewareFactory> = {
+  retry: (modifier) => {
+    const config = modifier.config as RetryModifierConfig;
+    const attempts = config.attempts ?? RETRY_DEFAULTS.attempts;
+    const backoff = config.backoff ?? RETRY_DEFAULTS.backoff;
+    const delayMs = getDuration(modifier, 'delay') ?? parseDuration(RETRY_DEFAULTS.delay);
+
+    return (next) => async (input, context) => {
+      for (let retry = 0; ; retry++) {
+        try {
+          return await next(input, { ...context, attempt: retry + 1 });
+        } catch (e) {
+          if (retry >= attempts || context.signal.aborted) {
+            throw e;
+          }
+          await sleep(backoffDelay(backoff, delayMs, retry + 1), context.signal);
+        }
+      }
+    };
+  },
+
+  timeout: (modifier) => {
+    const timeoutMs = getDuration(modifier, 'duration');
+    if (timeoutMs === undefined) {
+      return (next) => next;
+    }
+
+    return (next) => (input, context) => {
+      const controller = new AbortController();
+      const cancel = () => controller.abort(context.signal.reason);
+      if (context.signal.aborted) {
+        cancel();
+      }
+      context.signal.addEventListener('abort', cancel, { once: true });
+      const timer = setTimeout(() => controller.abort(new SkillTimeoutError(timeoutMs)), timeoutMs);
+
+      // Reject on abort even if the skill ignores its signal
+      return new Promise<unknown>((resolve, reject) => {
+        const signal = controller.signal;
+        if (signal.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+        next(input, { ...context, signal }).then(resolve, reject);
+      }).finally(() => {
+        clearTimeout(timer);
+        context.signal.removeEventListener('abort', cancel);
+      });
+    };
+  },
+
+  'rate-limit': (modifier, runtime) => {
+    const config = modifier.config as RateLimitModifierConfig;
+    if (config.requests === undefined) {
+      return (next) => next;
+    }
+    const windowMs = getDuration(modifier, 'window') ?? parseDuration(RUNTIME_DEFAULTS.rateLimitWindow);
+    const create = () => createTokenBucket(config.requests!, windowMs);
+    const bucket = isComboModifier(modifier)
+      ? runtime.shared(`rate-limit:${JSON.stringify(modifier.path)}`, create)
+      : create();
+
+    return (next) => async (input, context) => {
+      await bucket.take(context.signal);
+      return next(input, context);
+    };
+  },
+
+  cache: (modifier) => {
+    const config = modifier.config as CacheModifierConfig;
+    const ttlMs = getDuration(modifier, 'ttl');
+    const entries = new Map<string, { result: Promise<unknown>; expires: number }>();
+
+    return (next) => (input, context) => {
+      const key = config.key ? renderCacheKey(config.key, input) : JSON.stringify(input) ?? '';
+      const now = Date.now();
+      const hit = entries.get(key);
+      if (hit && hit.expires > now) {
+        return hit.result;
+      }
+
+      // Concurrent calls with the same key share one invocation; failures
+      // are not cached
+      const result = next(input, context);
+      entries.set(key, { result, expires: ttlMs === undefined ? Infinity : now + ttlMs });
+      result.catch(() => {
+        if (entries.get(key)?.result === result) {
+          entries.delete(key);
+        }
+      });
+      return result;
+    };
+  },
+
+  auth: (modifier, runtime) => {
+    const config = modifier.config as AuthModifierConfig;
+    const resolve = runtime.options.resolveSecret ?? resolveSecretRef;
+
+    return (next) => async (input, context) => {
+      const secret = config.source ? await resolve(config.source) : undefined;
+      return next(input, { ...context, auth: { type: config.type, secret } });
+    };
+  },
+
+  log: (modifier, runtime) => {
+    const config = modifier.config as LogModifierConfig;
+    const threshold = LOG_LEVELS.indexOf(config.level ?? RUNTIME_DEFAULTS.logLevel);
+    const include = new Set<string>(config.include ?? RUNTIME_DEFAULTS.logInclude);
+    const emit = (entry: Omit<RuntimeLogEntry, 'skill'>) => {
+      if (LOG_LEVELS.indexOf(entry.level) >= threshold) {
+        runtime.log(entry);
+      }
+    };
+
+    return (next) => async (input, context) => {
+      const started = Date.now();
+      const withInput = include.has('input') ? { input } : {};
+      emit({ level: 'debug', event: 'start', ...withInput });
+      try {
+        const output = await next(input, context);
+        emit({
+          level: 'info',
+          event: 'success',
+          ...withInput,
+          ...(include.has('output') ? { output } : {}),
+          ...(include.has('timing') ? { durationMs: Date.now() - started } : {}),
+        });
+        return output;
+      } catch (e) {
+        emit({
+          level: 'error',
+          event: 'error',
+          ...withInput,
+          ...(include.has('errors') ? { error: (e as Error).message } : {}),
+          ...(include.has('timing') ? { durationMs: Date.now() - started } : {}),
+        });
+        throw e;
+      }
+    };
+  },
+
+  fallback: (modifier, runtime) => {
+    const config = modifier.config as FallbackModifierConfig;
+    const target = config.skill === undefined ? undefined : runtime.options.skills?.[config.skill];
+    if (config.skill !== undefined && !target) {
+      throw new Error(
+        `No invocation for fallback '${config.skill}'${runtime.skill ? ` of '${runtime.skill}'` : ''}; ` +
+          `pass it in the runtime's 'skills' option`
+      );
+    }
+    const hasValue = Object.hasOwn(config, 'value');
+
+    return (next) => async (input, context) => {
+      try {
+        return await next(input, context);
+      } catch (e) {
+        if (context.signal.aborted || (!target && !hasValue)) {
+          throw e;
+        }
+        return target ? target(input, context) : structuredClone(config.value);
+      }
+    };
+  },
+
+  'dry-run': (modifier, runtime) => {
+    const config = modifier.config as DryRunModifierConfig;
+
+    return (next) => (input, context) => {
+      if (config.log !== false) {
+        runtime.log({ level: 'info', event: 'dry-run', input });
+      }
+      const simulated = { ...context, dryRun: true };
+      return runtime.options.simulate ? runtime.options.simulate(input, simulated) : next(input, simulated);
+    };
+  },
+
+  parallel: (modifier) => {
+    const config = modifier.config as ParallelModifierConfig;
+    const slots = createSemaphore(config.concurrency ?? RUNTIME_DEFAULTS.concurrency);
+
+    return (next) => async (input, context) => {
+      await slots.acquire();
+      try {
+        return await next(input, context);
+      } finally {
+        slots.release();
+      }
+    };
+  },
+
+  // Batching shapes invokeAll; a single invocation is unchanged
+  batch: () => (next) => next,
+};
+
+/**
+ * Creates a runtime that applies modifiers to skill invocations.
+ *
+ * @param options - Runtime options
+ * @returns The runtime
+ */
+export function createModifierRuntime(options: ModifierRuntimeOptions = {}): ModifierRuntime {
+  const state = new Map<string, unknown>();
+  const logger = options.logger ?? logToConsole;
+
+  const wrap = <I, O>(
+    invoke: SkillInvocation<I, O>,
+    modifiers: ParsedModifier[],
+    skill?: string
+  ): WrappedSkill<I, O> => {
+    const runtime: MiddlewareRuntime = {
+      options,
+      skill,
+      log: (entry) => {
+        const { value } = redactJson({ ...entry, skill });
+        logger(value);
+      },
+      shared: <T>(key: string, create: () => T): T => {
+        if (!state.has(key)) {
+          state.set(key, create());
+        }
+        return state.get(key) as T;
+      },
+    };
+
+    let chain = invoke as SkillInvocation;
+    for (const modifier of applicationOrder(modifiers)) {
+      const factory = options.middleware?.[modifier.type] ?? BUILTIN_MIDDLEWARE[modifier.type];
+      if (!factory) {
+        throw new Error(
+          `No runtime middleware for modifier '${modifier.type}'; pass one in the runtime's 'middleware' option`
+        );
+      }
+      chain = factory(modifier, runtime)(chain);
+    }
+
+    const call = (input: I, invokeOptions: InvokeOptions = {}): Promise<O> =>
+      chain(input, {
+        signal: invokeOptions.signal ?? new AbortController().signal,
+        attempt: 1,
+        dryRun: false,
+      }) as Promise<O>;
+
+    const batch = modifiers.find((m) => m.type === 'batch');
+    const parallel = modifiers.some((m) => m.type === 'parallel');
+
+    return {
+      invoke: call,
+      invokeAll: async (inputs, invokeOptions) => {
+        if (parallel) {
+          return Promise.all(inputs.map((input) => call(input, invokeOptions)));
+        }
+        if (!batch) {
+          const outputs: O[] = [];
+          for (const input of inputs) {
+            outputs.push(await call(input, invokeOptions));
+          }
+          return outputs;
+        }
+
+        const size = (batch.config as BatchModifierConfig).size ?? inputs.length;
+        const delayMs = getDuration(batch, 'delay') ?? 0;
+        const outputs: O[] = [];
+        for (let start = 0; start < inputs.length; start += size) {
+          if (start > 0 && delayMs > 0) {
+            await sleep(delayMs, invokeOptions?.signal);
+          }
+          const group = inputs.slice(start, start + size);
+          outputs.push(...(await Promise.all(group.map((input) => call(input, invokeOptions)))));
+        }
+        return outputs;
+      },
+    };
+  };
+
+  return {
+    wrap,
+    reset: () => state.clear(),
+  };
+}
+
+/**
+ * Wraps a skill invocation with modifiers, using a runtime of its own.
+ *
+ * @param invoke - The skill invocation
+ * @param modifiers - Modifiers from parseModifier or effectiveModifiers
+ * @param options - Runtime options
+ * @returns The wrapped skill
+ */
+export function applyModifiers<I, O>(
+  invoke: SkillInvocation<I, O>,
+  modifiers: ParsedModifier[],
+  options: ModifierRuntimeOptions = {}
+): WrappedSkill<I, O> {
+  return createModifierRuntime(options).wrap(invoke, modifiers);
+}
+
+/**
+ * Computes the wait before a retry.
+ *
+ * @param backoff - Backoff strategy
+ * @param delayMs - Initial delay in milliseconds
+ * @param retry - Retry number, starting at 1
+ * @returns Milliseconds to wait
+ */
+export function backoffDelay(
+  backoff: NonNullable<RetryModifierConfig['backoff']>,
+  delayMs: number,
+  retry: number
+): number {
+  switch (backoff) {
+    case 'fixed':
+      return delayMs;
+    case 'linear':
+      return delayMs * retry;
+    case 'exponential':
+      return delayMs * 2 ** (retry - 1);
+  }
+}
+
+/**
+ * Resolves `env:` and `file:` secret references. Keychain references need
+ * a `resolveSecret` option that knows the secret store.
+ *
+ * @param ref - Secret reference
+ * @returns The secret
+ * @throws Error if the secret cannot be read; the message does not repeat
+ *   the secret
+ */
+export async function resolveSecretRef(ref: SecretRef): Promise<string> {
+  const { scheme, name } = parseSecretRef(ref);
+  switch (scheme) {
+    case 'env': {
+      const value = process.env[name];
+      if (value === undefined) {
+        throw new Error(`Environment variable ${name} is not set`);
+      }
+      return value;
+    }
+    case 'file':
+      return (await fs.readFile(name, 'utf8')).trim();
+    case 'keychain':
+      throw new Error(`Cannot resolve '${ref}': keychain references need a 'resolveSecret' option`);
+  }
+}
+
+/**
+ * A token bucket: holds up to `capacity` tokens and refills at `capacity`
+ * per window. Waiters are served in order.
+ */
+function createTokenBucket(capacity: number, windowMs: number) {
+  const perMs = capacity / windowMs;
+  let tokens = capacity;
+  let refilled = Date.now();
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + (now - refilled) * perMs);
+    refilled = now;
+  };
+
+  return {
+    take(signal?: AbortSignal): Promise<void> {
+      const turn = queue.then(async () => {
+        refill();
+        if (tokens < 1) {
+          await sleep(Math.ceil((1 - tokens) / perMs), signal);
+          refill();
+        }
+        tokens -= 1;
+      });
+      queue = turn.catch(() => undefined);
+      return turn;
+    },
+  };
+}
+
+/**
+ * Limits how many callers hold a slot at once.
+ */
+function createSemaphore(limit: number) {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  return {
+    async acquire(): Promise<void> {
+      if (active < limit) {
+        active++;
+        return;
+      }
+      // The releasing caller hands its slot over
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    },
+    release(): void {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    },
+  };
+}
+
+/**
+ * Waits, stopping early with the signal's reason when it is aborted.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Renders a cache key template such as `${input.url}` for an input.
+ */
+function renderCacheKey(template: string, input: unknown): string {
+  return template.replace(CACHE_KEY_PLACEHOLDER_REGEX, (_match, path: string | undefined) => {
+    let value: unknown = input;
+    for (const part of path?.split('.') ?? []) {
+      value = value && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined;
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+  });
+}
+
+/**
+ * Orders modifiers for wrapping: a `timeout` listed after a `retry` moves
+ * just inside it, so it times out each attempt rather than all of them.
+ */
+function applicationOrder(modifiers: ParsedModifier[]): ParsedModifier[] {
+  const retry = modifiers.findIndex((m) => m.type === 'retry');
+  const timeouts = modifiers.filter((m, i) => i > retry && m.type === 'timeout');
+  if (retry === -1 || timeouts.length === 0) {
+    return modifiers;
+  }
+  const rest = modifiers.filter((m) => !timeouts.includes(m));
+  return [...rest.slice(0, retry), ...timeouts, ...rest.slice(retry)];
+}
+
+/**
+ * Whether a modifier was declared on the combo.
+ */
+function isComboModifier(modifier: ParsedModifier): modifier is EffectiveModifier {
+  return (modifier as EffectiveModifier).source === 'combo';
+}
+
+/**
+ * Default logger: one console line per entry.
+ */
+function logToConsole(entry: RuntimeLogEntry): void {
+  const { level, event, skill, ...details } = entry;
+  const message = `[modifierRuntime] ${skill ? `${skill}: ` : ''}${event}`;
+  const log = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+  if (Object.keys(details).length > 0) {
+    log(message, details);
+  } else {
+    log(message);
+  }
+}
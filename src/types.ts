@@ -15,9 +15,17 @@
 export type SkillPrimitive = 'read' | 'write' | 'search' | 'execute' | 'transform';
 
 /**
- * Available modifier types for cross-cutting behaviors.
+ * Abstraction tier of a skill.
+ * - 1: Universal primitives (infrastructure and tool access)
+ * - 2: Domain patterns (reusable across domains)
+ * - 3: Abstract patterns (high-level workflows)
  */
-export type ModifierType =
+export type SkillTier = 1 | 2 | 3;
+
+/**
+ * Built-in modifier types for cross-cutting behaviors.
+ */
+export type BuiltinModifierType =
   | 'retry'
   | 'cache'
   | 'timeout'
@@ -29,20 +37,35 @@ export type ModifierType =
   | 'parallel'
   | 'dry-run';
 
+/**
+ * A modifier type: built-in, or registered with registerModifier.
+ */
+export type ModifierType = BuiltinModifierType | (string & {});
+
+/**
+ * Unit of a duration.
+ */
+export type DurationUnit = 'ms' | 's' | 'm' | 'h' | 'd';
+
+/**
+ * A duration such as `30s`, `5m` or `500ms`. Parse it with parseDuration.
+ */
+export type Duration = `${number}${DurationUnit}`;
+
 /**
  * Retry modifier configuration.
  */
 export interface RetryModifierConfig {
   attempts?: number;
   backoff?: 'linear' | 'exponential' | 'fixed';
-  delay?: string;
+  delay?: Duration;
 }
 
 /**
  * Cache modifier configuration.
  */
 export interface CacheModifierConfig {
-  ttl?: string;
+  ttl?: Duration;
   key?: string;
 }
 
@@ -50,15 +73,27 @@ export interface CacheModifierConfig {
  * Timeout modifier configuration.
  */
 export interface TimeoutModifierConfig {
-  duration?: string;
+  duration?: Duration;
 }
 
+/**
+ * Where a secret reference points: an environment variable, a file, or an
+ * entry in the runtime's keychain or secret store.
+ */
+export type SecretScheme = 'env' | 'file' | 'keychain';
+
+/**
+ * Reference to a secret, e.g. `env:GITHUB_TOKEN`. The reference is passed
+ * on as written; the secret itself never appears in a combo or its output.
+ */
+export type SecretRef = `${SecretScheme}:${string}`;
+
 /**
  * Auth modifier configuration.
  */
 export interface AuthModifierConfig {
   type?: 'bearer' | 'basic' | 'api-key' | 'oauth2';
-  source?: string;
+  source?: SecretRef;
 }
 
 /**
@@ -66,7 +101,7 @@ export interface AuthModifierConfig {
  */
 export interface RateLimitModifierConfig {
   requests?: number;
-  window?: string;
+  window?: Duration;
 }
 
 /**
@@ -90,7 +125,7 @@ export interface FallbackModifierConfig {
  */
 export interface BatchModifierConfig {
   size?: number;
-  delay?: string;
+  delay?: Duration;
 }
 
 /**
@@ -121,6 +156,11 @@ export interface StructuredModifier {
   batch?: BatchModifierConfig;
   parallel?: ParallelModifierConfig;
   'dry-run'?: DryRunModifierConfig;
+
+  /**
+   * Configuration of a registered custom modifier.
+   */
+  [type: string]: object | undefined;
 }
 
 /**
@@ -142,6 +182,108 @@ export interface ParsedModifier {
   raw: string | StructuredModifier;
 }
 
+/**
+ * Definition of a modifier type, built in or registered with
+ * registerModifier.
+ */
+export interface ModifierDefinition {
+  /**
+   * Modifier type: the prefix of the prefix form and the key of the
+   * structured form. Lowercase letters, digits and hyphens.
+   */
+  type: ModifierType;
+
+  /**
+   * What the modifier does, in one sentence. Used in prompts.
+   */
+  description: string;
+
+  /**
+   * Parses the value after `type:` in the prefix form into a config.
+   * Without it, the prefix form takes no value.
+   * @throws Error for a malformed value
+   */
+  parsePrefix?: (value: string) => Record<string, unknown>;
+
+  /**
+   * Regular expression (without anchors) for the prefix value, used in the
+   * generated JSON Schema. Default: any value, when parsePrefix is set.
+   */
+  prefixPattern?: string;
+
+  /**
+   * JSON Schema of the structured form's config object, used in the
+   * generated JSON Schema and to check parsed configs. Default: any object.
+   */
+  configSchema?: Record<string, unknown>;
+
+  /**
+   * Compatibility with each primitive: true, 'warn' (compatible with
+   * caveats) or false. Primitives left out are compatible.
+   */
+  compatibility?: Partial<Record<SkillPrimitive, boolean | 'warn'>>;
+
+  /**
+   * Modifier types that cannot be used together with this one, with the
+   * reason. Conflicts apply in both directions.
+   */
+  conflicts?: Record<string, string>;
+
+  /**
+   * Modifier types that should not be stacked directly after this one,
+   * with the warning to show.
+   */
+  stackingWarnings?: Record<string, string>;
+
+  /**
+   * How a combo-level modifier of this type applies to the combo's skills.
+   * @default 'override'
+   */
+  inheritance?: ModifierInheritance;
+
+  /**
+   * Config fields holding durations, with the units each accepts.
+   */
+  durations?: Record<string, DurationUnit[]>;
+}
+
+/**
+ * A problem with one value of a modifier config.
+ */
+export interface ModifierConfigIssue {
+  /**
+   * Path of the value within the config, e.g. ['attempts']; empty for the
+   * config as a whole.
+   */
+  path: DocumentPath;
+
+  message: string;
+}
+
+/**
+ * A modifier as it applies to one skill, after combo-level and skill-level
+ * modifiers are merged.
+ */
+export interface EffectiveModifier extends ParsedModifier {
+  /**
+   * Where the modifier was declared: on the combo or on the skill itself.
+   */
+  source: 'combo' | 'skill';
+
+  /**
+   * Document path of the declaration.
+   */
+  path: DocumentPath;
+}
+
+/**
+ * How a combo-level modifier applies to the combo's skills:
+ * - override: skills inherit it unless they set a modifier of the same type
+ * - stack: skills inherit it in addition to their own
+ * - combo: it applies to the combo as a whole and is not inherited
+ */
+export type ModifierInheritance = 'override' | 'stack' | 'combo';
+
 /**
  * Reference to a skill in a combo skill definition.
  */
@@ -153,10 +295,17 @@ export interface SkillReference {
 
   /**
    * Registry or source of the skill.
+   * A relative path (e.g. './other.combo.yaml') includes another combo.
    * @default "skills.sh"
    */
   from?: string;
 
+  /**
+   * Path to another combo definition to include as this skill,
+   * relative to the including combo file.
+   */
+  combo?: string;
+
   /**
    * Optional version constraint.
    */
@@ -167,6 +316,19 @@ export interface SkillReference {
    */
   alias?: string;
 
+  /**
+   * Tier of the referenced skill. Registry skills default to tier 1;
+   * nested combos use their declared or inferred tier.
+   */
+  tier?: SkillTier;
+
+  /**
+   * Tie-break for execution order. Among skills whose dependencies have
+   * run, higher priority runs first; equal priorities keep declaration order.
+   * @default 0
+   */
+  priority?: number;
+
   /**
    * Primitive capability categories for this skill.
    */
@@ -203,11 +365,145 @@ export interface ComboConstraints {
  * Mapping of data flow between skills.
  */
 export interface DataFlowMapping {
+  /**
+   * Producing skill (name or alias). Data flow implies it runs before `to`.
+   */
   from: string;
+
+  /**
+   * Consuming skill (name or alias).
+   */
   to: string;
+
+  /**
+   * Output field of `from` → input field of `to`.
+   */
   mapping?: Record<string, string>;
 }
 
+/**
+ * A step of a `composition:` block.
+ *
+ * Each step has exactly one kind: `skill`, `sequence`, `parallel`, `pipe`,
+ * `conditional` or `map`. String values may reference earlier outputs as
+ * `${name}` (or `${name.field}`); `${input}` is the combo's own input.
+ */
+export interface CompositionStep {
+  /**
+   * Runs a declared skill (name or alias).
+   */
+  skill?: string;
+
+  /**
+   * Input of a skill step: one reference (`${html}`), or a map of input
+   * fields to values.
+   */
+  input?: string | Record<string, string>;
+
+  /**
+   * Extra arguments for a skill step.
+   */
+  with?: Record<string, unknown>;
+
+  /**
+   * Names the step's result so later steps can reference it.
+   */
+  output?: string;
+
+  /**
+   * Runs steps in order.
+   */
+  sequence?: CompositionStep[];
+
+  /**
+   * Runs steps concurrently and collects their outputs.
+   */
+  parallel?: CompositionStep[];
+
+  /**
+   * Runs steps in order, passing each step's output as the next step's input.
+   */
+  pipe?: CompositionStep[];
+
+  /**
+   * Runs `then` when the predicate holds, `else` otherwise.
+   */
+  conditional?: ConditionalStep;
+
+  /**
+   * Runs steps once for each item of a collection.
+   */
+  map?: MapStep;
+}
+
+/**
+ * Configuration of a `conditional` composition step.
+ */
+export interface ConditionalStep {
+  /**
+   * Predicate in natural language or as an expression, e.g.
+   * `${rows} is not empty`.
+   */
+  if: string;
+
+  then: CompositionStep[];
+  else?: CompositionStep[];
+}
+
+/**
+ * Configuration of a `map` composition step.
+ */
+export interface MapStep {
+  /**
+   * Reference to the collection, e.g. `${pages}`.
+   */
+  over: string;
+
+  /**
+   * Name of the current item inside `do`.
+   * @default "item"
+   */
+  as?: string;
+
+  do: CompositionStep[];
+}
+
+/**
+ * Types a combo parameter can declare.
+ */
+export type ParameterType = 'string' | 'number' | 'boolean';
+
+/**
+ * A value bound to a combo parameter.
+ */
+export type ParameterValue = string | number | boolean;
+
+/**
+ * A parameter declared by a combo skill.
+ * Referenced as `${params.<name>}` in string values.
+ */
+export interface ComboParameter {
+  /**
+   * Parameter name.
+   */
+  name: string;
+
+  /**
+   * Expected value type.
+   */
+  type: ParameterType;
+
+  /**
+   * Value used when none is supplied.
+   */
+  default?: ParameterValue;
+
+  /**
+   * Human-readable description.
+   */
+  description?: string;
+}
+
 /**
  * Metadata for a combo skill.
  */
@@ -221,6 +517,12 @@ export interface ComboMetadata {
  * A combo skill definition as authored by the user.
  */
 export interface ComboSkillDefinition {
+  /**
+   * Version of the definition format (see loader/migrations.ts).
+   * Not to be confused with `version`, the version of the skill itself.
+   */
+  schemaVersion?: number;
+
   /**
    * Unique name for the combo skill.
    */
@@ -236,6 +538,22 @@ export interface ComboSkillDefinition {
    */
   version?: string;
 
+  /**
+   * Path to a base combo definition, relative to this file.
+   * The base is loaded and this definition is merged over it.
+   */
+  extends?: string;
+
+  /**
+   * Parameters that can be supplied at compile time.
+   */
+  parameters?: ComboParameter[];
+
+  /**
+   * Abstraction tier. Inferred as max(component tiers) + 1 when omitted.
+   */
+  tier?: SkillTier;
+
   /**
    * Primitive capability categories used by this combo skill.
    */
@@ -256,6 +574,11 @@ export interface ComboSkillDefinition {
    */
   intent: string;
 
+  /**
+   * Explicit control flow between the skills (see specs/004-composition-model).
+   */
+  composition?: CompositionStep[];
+
   /**
    * Composition constraints.
    */
@@ -296,12 +619,56 @@ export interface ResolvedSkill {
    */
   resolved: boolean;
 
+  /**
+   * Primitive capability categories, when known (e.g. from a nested combo).
+   */
+  primitives?: SkillPrimitive[];
+
+  /**
+   * Tier, when known (e.g. from a nested combo).
+   */
+  tier?: SkillTier;
+
   /**
    * Additional metadata from resolution.
    */
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * A `fallback` modifier that names a skill to run in place of another.
+ */
+export interface FallbackLink {
+  /**
+   * Key (alias or name) of the skill the fallback replaces; undefined for
+   * the combo's own fallback.
+   */
+  skill?: string;
+
+  /**
+   * The fallback skill: a skill key of this combo, or the name of a skill
+   * to resolve from a registry.
+   */
+  target: string;
+
+  /**
+   * Whether the target is one of the combo's skills.
+   */
+  declared: boolean;
+
+  /**
+   * Document path of the fallback modifier.
+   */
+  path: DocumentPath;
+}
+
+/**
+ * A fallback with its target resolved.
+ */
+export interface ResolvedFallback extends FallbackLink {
+  resolved: ResolvedSkill;
+}
+
 /**
  * A combo skill with all skills resolved.
  */
@@ -310,6 +677,170 @@ export interface ResolvedComboSkill extends ComboSkillDefinition {
    * Resolved skill data.
    */
   resolvedSkills: ResolvedSkill[];
+
+  /**
+   * Fallbacks that name a skill, with their targets resolved.
+   */
+  fallbacks?: ResolvedFallback[];
+
+  /**
+   * Execution stages from the dependency graph, as skill aliases (or names).
+   * Skills within a stage can run concurrently.
+   */
+  stages?: string[][];
+}
+
+/**
+ * A component skill of an execution plan, as resolved.
+ */
+export interface PlanSkill {
+  /**
+   * Key the plan uses for the skill (alias or name).
+   */
+  key: string;
+
+  name: string;
+  from: string;
+  version: string;
+
+  /**
+   * Whether resolution succeeded. Runtimes should not run unresolved skills.
+   */
+  resolved: boolean;
+
+  /**
+   * Path of the included combo file, for nested combos.
+   */
+  combo?: string;
+
+  primitives: SkillPrimitive[];
+}
+
+/**
+ * An input of a plan step, taken from another skill's output.
+ */
+export interface PlanBinding {
+  /**
+   * Producing skill key.
+   */
+  from: string;
+
+  /**
+   * Output field of the producer; the whole output when omitted.
+   */
+  output?: string;
+
+  /**
+   * Input field (or `with` argument) of the consumer; the whole input when
+   * omitted.
+   */
+  input?: string;
+}
+
+/**
+ * A modifier of a plan step, after parsing.
+ */
+export interface PlanModifier {
+  type: ModifierType;
+  config: Record<string, unknown>;
+
+  /**
+   * Where the modifier was declared: on the combo or on the skill itself.
+   */
+  source: 'combo' | 'skill';
+}
+
+/**
+ * A skill that runs in place of a step (or of the whole combo) when it
+ * fails.
+ */
+export interface PlanFallback {
+  /**
+   * Key of the step the fallback replaces; omitted for the combo's own
+   * fallback.
+   */
+  skill?: string;
+
+  /**
+   * A skill key of the plan when `declared`, otherwise a skill name.
+   */
+  target: string;
+
+  declared: boolean;
+  from: string;
+  version: string;
+  resolved: boolean;
+}
+
+/**
+ * One skill invocation of an execution plan.
+ */
+export interface PlanStep {
+  /**
+   * Skill key, matching a PlanSkill.
+   */
+  skill: string;
+
+  /**
+   * Index of the execution stage the step belongs to.
+   */
+  stage: number;
+
+  /**
+   * Skill keys that must finish before this step starts.
+   */
+  dependsOn: string[];
+
+  bindings: PlanBinding[];
+
+  /**
+   * Effective modifiers, combo-level and skill-level merged.
+   */
+  modifiers: PlanModifier[];
+}
+
+/**
+ * A serializable description of how to run a compiled combo, for runtimes
+ * that do not read SKILL.md. See schemas/execution-plan.schema.json.
+ */
+export interface ExecutionPlan {
+  /**
+   * Version of the plan format.
+   */
+  planVersion: number;
+
+  name: string;
+  version: string;
+  description: string;
+  tier: SkillTier;
+
+  skills: PlanSkill[];
+
+  /**
+   * Execution stages as skill keys; skills within a stage can run
+   * concurrently.
+   */
+  stages: string[][];
+
+  /**
+   * One step per skill, in execution order.
+   */
+  steps: PlanStep[];
+
+  /**
+   * Modifiers that apply to the combo as a whole rather than to each step.
+   */
+  modifiers: PlanModifier[];
+
+  /**
+   * Fallbacks that name a skill, in declaration order.
+   */
+  fallbacks?: PlanFallback[];
+
+  /**
+   * The combo's composition block, if any, describing its control flow.
+   */
+  composition?: CompositionStep[];
 }
 
 /**
@@ -331,6 +862,11 @@ export interface CompiledSkill {
    */
   skillMd: string;
 
+  /**
+   * Execution plan, written as plan.json.
+   */
+  plan: ExecutionPlan;
+
   /**
    * Compilation metadata.
    */
@@ -339,7 +875,38 @@ export interface CompiledSkill {
     sourceCombo: string;
     compilationMode: string;
     skills: string[];
+    tier: SkillTier;
+
+    /**
+     * Worst-case runtime estimate from the skills' timeout, retry and
+     * rate-limit modifiers. Present when at least one skill has a timeout.
+     */
+    latency?: {
+      /**
+       * Skills on the critical path, in execution order.
+       */
+      criticalPath: string[];
+
+      worstCaseMs: number;
+
+      /**
+       * The combo-level timeout, if any.
+       */
+      budgetMs?: number;
+
+      /**
+       * Skills without a timeout; the estimate does not cover them.
+       */
+      unbounded: string[];
+    };
   };
+
+  /**
+   * Pattern id of each credential-looking value redacted from the prompt
+   * and the output, e.g. `github-token` (see SECRET_PATTERNS). Not written
+   * to disk.
+   */
+  redactions: string[];
 }
 
 /**
@@ -348,6 +915,113 @@ export interface CompiledSkill {
 export interface CompilationResult {
   success: boolean;
   skill?: CompiledSkill;
-  errors?: string[];
-  warnings?: string[];
+  errors?: Diagnostic[];
+  warnings?: Diagnostic[];
+}
+
+/**
+ * Severity of a diagnostic.
+ */
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * A path into a combo skill document, e.g. ['skills', 2, 'modifiers', 0].
+ */
+export type DocumentPath = Array<string | number>;
+
+/**
+ * A source location, addressed by document path and, once located,
+ * by file, line and column.
+ */
+export interface DiagnosticLocation {
+  /**
+   * Location of the value within the combo definition.
+   */
+  path?: DocumentPath;
+
+  /**
+   * Source file the location refers to.
+   */
+  file?: string;
+
+  /**
+   * 1-based line in the source file.
+   */
+  line?: number;
+
+  /**
+   * 1-based column in the source file.
+   */
+  column?: number;
+}
+
+/**
+ * Another location that helps explain a diagnostic
+ * (e.g. the other half of a conflicting modifier pair).
+ */
+export interface RelatedLocation extends DiagnosticLocation {
+  message: string;
+}
+
+/**
+ * A single edit to a combo definition, modeled on JSON Patch operations.
+ * - add: insert into a sequence at `path` (index = length appends) or set a map key
+ * - remove: delete the value at `path`
+ * - replace: overwrite the value at `path`
+ * - move: remove the value at `from` and add it at `path`
+ */
+export type DocumentEdit =
+  | { op: 'add'; path: DocumentPath; value: unknown }
+  | { op: 'remove'; path: DocumentPath }
+  | { op: 'replace'; path: DocumentPath; value: unknown }
+  | { op: 'move'; from: DocumentPath; path: DocumentPath };
+
+/**
+ * A suggested fix for a diagnostic.
+ */
+export interface DiagnosticFix {
+  /**
+   * Human-readable description of the change.
+   */
+  description: string;
+
+  /**
+   * Edits to apply, in order.
+   */
+  edits: DocumentEdit[];
+}
+
+/**
+ * A structured validation or compilation message.
+ */
+export interface Diagnostic extends DiagnosticLocation {
+  /**
+   * Stable identifier for the kind of issue (e.g., 'MOD001').
+   */
+  code: string;
+
+  /**
+   * Stable short name for the code (e.g., 'incompatible-primitive').
+   */
+  name: string;
+
+  /**
+   * Whether the issue blocks compilation.
+   */
+  severity: DiagnosticSeverity;
+
+  /**
+   * Human-readable description of the issue.
+   */
+  message: string;
+
+  /**
+   * Other locations involved in the issue.
+   */
+  related?: RelatedLocation[];
+
+  /**
+   * A suggested fix, when one can be derived mechanically.
+   */
+  fix?: DiagnosticFix;
 }
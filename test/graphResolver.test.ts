@@ -0,0 +1,134 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { resolveDependencyGraph } from '../src/compiler/graphResolver.js';
+import type { ComboSkillDefinition, SkillReference } from '../src/types.js';
+
+function combo(skills: SkillReference[], ordering: string[] = []): ComboSkillDefinition {
+  return {
+    name: 'test-combo',
+    description: 'A combo for graph resolver tests',
+    intent: 'Check the order skills run in',
+    skills,
+    ...(ordering.length > 0 ? { constraints: { ordering } } : {}),
+  };
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) {
+    return [items];
+  }
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((rest) => [item, ...rest])
+  );
+}
+
+describe('resolveDependencyGraph', () => {
+  const skills = ['fetch', 'parse', 'validate', 'store', 'notify'].map((name) => ({ name }));
+
+  describe('determinism', () => {
+    const expectedOrder = ['fetch', 'parse', 'validate', 'store', 'notify'];
+    const expectedStages = [['fetch'], ['parse', 'notify'], ['validate', 'store']];
+
+    it('gives the same order however the constraints are listed', () => {
+      const ordering = ['fetch -> parse', 'parse -> [validate, store]', 'fetch -> notify'];
+      for (const shuffled of permutations(ordering)) {
+        const graph = resolveDependencyGraph(combo(skills, shuffled));
+        assert.deepEqual(graph.executionOrder, expectedOrder, shuffled.join('; '));
+        assert.deepEqual(graph.stages, expectedStages, shuffled.join('; '));
+      }
+    });
+
+    it('gives the same order however the constraints are written', () => {
+      const variants = [
+        ['fetch -> parse -> [validate, store]', 'fetch -> notify'],
+        ['fetch -> [notify, parse]', 'parse -> [store, validate]'],
+        ['parse -> store', 'fetch -> notify', 'parse -> validate', 'fetch -> parse'],
+      ];
+      for (const ordering of variants) {
+        const graph = resolveDependencyGraph(combo(skills, ordering));
+        assert.deepEqual(graph.executionOrder, expectedOrder, ordering.join('; '));
+        assert.deepEqual(graph.stages, expectedStages, ordering.join('; '));
+      }
+    });
+
+    it('ignores constraints repeated or implied by others', () => {
+      const ordering = [
+        'fetch -> parse',
+        'parse -> [validate, store]',
+        'fetch -> notify',
+        'fetch -> parse',
+        'fetch -> store',
+      ];
+      const graph = resolveDependencyGraph(combo(skills, ordering));
+      assert.deepEqual(graph.executionOrder, expectedOrder);
+      assert.deepEqual(graph.stages, expectedStages);
+    });
+  });
+
+  describe('tie-break', () => {
+    it('runs unconstrained skills in declaration order', () => {
+      const graph = resolveDependencyGraph(combo(skills));
+      assert.deepEqual(graph.executionOrder, ['fetch', 'parse', 'validate', 'store', 'notify']);
+      assert.deepEqual(graph.stages, [['fetch', 'parse', 'validate', 'store', 'notify']]);
+    });
+
+    it('follows the declaration order, not the constraint order', () => {
+      const declared = ['notify', 'store', 'fetch', 'validate', 'parse'].map((name) => ({ name }));
+      const graph = resolveDependencyGraph(combo(declared, ['fetch -> [parse, validate]']));
+      assert.deepEqual(graph.executionOrder, ['notify', 'store', 'fetch', 'validate', 'parse']);
+      assert.deepEqual(graph.stages, [['notify', 'store', 'fetch'], ['validate', 'parse']]);
+    });
+
+    it('uses aliases as keys', () => {
+      const declared = [
+        { name: 'fetch', alias: 'primary' },
+        { name: 'fetch', alias: 'mirror' },
+      ];
+      const graph = resolveDependencyGraph(combo(declared));
+      assert.deepEqual(graph.executionOrder, ['primary', 'mirror']);
+    });
+  });
+
+  describe('priority', () => {
+    it('runs higher priority first among ready skills', () => {
+      const declared = [{ name: 'a' }, { name: 'b', priority: 1 }, { name: 'c', priority: 2 }];
+      const graph = resolveDependencyGraph(combo(declared));
+      assert.deepEqual(graph.executionOrder, ['c', 'b', 'a']);
+      assert.deepEqual(graph.stages, [['c', 'b', 'a']]);
+    });
+
+    it('runs negative priority after the default', () => {
+      const declared = [{ name: 'a', priority: -1 }, { name: 'b' }, { name: 'c' }];
+      const graph = resolveDependencyGraph(combo(declared));
+      assert.deepEqual(graph.executionOrder, ['b', 'c', 'a']);
+    });
+
+    it('breaks priority ties by declaration order', () => {
+      const declared = [{ name: 'a' }, { name: 'b', priority: 1 }, { name: 'c', priority: 1 }];
+      const graph = resolveDependencyGraph(combo(declared));
+      assert.deepEqual(graph.executionOrder, ['b', 'c', 'a']);
+    });
+
+    it('never runs a skill before its dependencies', () => {
+      const declared = [{ name: 'a' }, { name: 'b', priority: 5 }, { name: 'c', priority: 1 }];
+      const graph = resolveDependencyGraph(combo(declared, ['a -> b']));
+      assert.deepEqual(graph.executionOrder, ['c', 'a', 'b']);
+      assert.deepEqual(graph.stages, [['c', 'a'], ['b']]);
+    });
+
+    it('gives the same order for shuffled constraints', () => {
+      const declared = [
+        { name: 'a' },
+        { name: 'b', priority: 1 },
+        { name: 'c' },
+        { name: 'd', priority: 2 },
+      ];
+      for (const ordering of permutations(['a -> c', 'b -> c', 'a -> d'])) {
+        const graph = resolveDependencyGraph(combo(declared, ordering));
+        assert.deepEqual(graph.executionOrder, ['b', 'a', 'd', 'c'], ordering.join('; '));
+        assert.deepEqual(graph.stages, [['b', 'a'], ['d', 'c']], ordering.join('; '));
+      }
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compileWithLLM } from '../src/compiler/llmCompiler.js';
+import type { ResolvedComboSkill, SkillReference } from '../src/types.js';
+
+function resolvedCombo(
+  skills: SkillReference[],
+  overrides: Partial<ResolvedComboSkill> = {}
+): ResolvedComboSkill {
+  return {
+    name: 'fallback-test',
+    description: 'A combo for SKILL.md rendering tests',
+    intent: 'Check how skills are named in SKILL.md',
+    skills,
+    resolvedSkills: skills.map((s) => ({
+      name: s.name,
+      from: 'skills.sh',
+      version: 'latest',
+      description: `The ${s.name} skill`,
+      resolved: true,
+    })),
+    ...overrides,
+  };
+}
+
+describe('compileWithLLM', () => {
+  describe('fallbacks', () => {
+    it('shows skill names in place of aliases', async () => {
+      const compiled = await compileWithLLM(
+        resolvedCombo([
+          { name: 'fetch-webpage', alias: 'fetch', modifiers: ['fallback:cached'] },
+          { name: 'read-cache', alias: 'cached' },
+        ])
+      );
+      assert.match(compiled.skillMd, /^- fetch-webpage → read-cache$/m);
+    });
+
+    it('keeps the aliases of skills that share a name', async () => {
+      const compiled = await compileWithLLM(
+        resolvedCombo([
+          { name: 'fetch-webpage', alias: 'primary', modifiers: ['fallback:backup'] },
+          { name: 'fetch-webpage', alias: 'backup' },
+        ])
+      );
+      assert.match(
+        compiled.skillMd,
+        /^- primary \(fetch-webpage\) → backup \(fetch-webpage\)$/m
+      );
+      assert.doesNotMatch(compiled.skillMd, /fetch-webpage → fetch-webpage/);
+    });
+
+    it('shows where targets outside the combo resolve from', async () => {
+      const compiled = await compileWithLLM(
+        resolvedCombo([{ name: 'fetch-webpage', alias: 'fetch', modifiers: ['fallback:archive-org'] }])
+      );
+      assert.match(compiled.skillMd, /^- fetch-webpage → archive-org$/m);
+    });
+  });
+
+  describe('stages', () => {
+    it('keeps the aliases of skills that share a name', async () => {
+      const compiled = await compileWithLLM(
+        resolvedCombo(
+          [
+            { name: 'fetch-webpage', alias: 'primary' },
+            { name: 'fetch-webpage', alias: 'mirror' },
+            { name: 'merge-results' },
+          ],
+          { constraints: { ordering: ['[primary, mirror] -> merge-results'] } }
+        )
+      );
+      assert.match(
+        compiled.skillMd,
+        /^1\. In parallel: primary \(fetch-webpage\), mirror \(fetch-webpage\)$/m
+      );
+      assert.match(compiled.skillMd, /^2\. merge-results$/m);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseModifier } from '../src/compiler/modifierValidator.js';
+import {
+  SkillTimeoutError,
+  applyModifiers,
+  backoffDelay,
+  type InvocationContext,
+  type MiddlewareFactory,
+} from '../src/runtime/modifierRuntime.js';
+import type { Modifier, ParsedModifier } from '../src/types.js';
+
+function parsed(...modifiers: Modifier[]): ParsedModifier[] {
+  return modifiers.map(parseModifier);
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// A skill that only settles when its signal is aborted
+function hang(_input: unknown, context: InvocationContext): Promise<never> {
+  return new Promise((_resolve, reject) => {
+    context.signal.addEventListener('abort', () => reject(context.signal.reason), { once: true });
+  });
+}
+
+describe('applyModifiers', () => {
+  describe('retry', () => {
+    it('runs the first attempt plus one run per retry', async () => {
+      const attempts: number[] = [];
+      const skill = applyModifiers(
+        async (_input, context) => {
+          attempts.push(context.attempt);
+          throw new Error(`attempt ${context.attempt} failed`);
+        },
+        parsed({ retry: { attempts: 3, delay: '1ms' } })
+      );
+      await assert.rejects(skill.invoke('x'), { message: 'attempt 4 failed' });
+      assert.deepEqual(attempts, [1, 2, 3, 4]);
+    });
+
+    it('stops retrying once an attempt succeeds', async () => {
+      let calls = 0;
+      const skill = applyModifiers(
+        async () => {
+          calls++;
+          if (calls < 2) {
+            throw new Error('flaky');
+          }
+          return 'ok';
+        },
+        parsed({ retry: { attempts: 3, delay: '1ms' } })
+      );
+      assert.equal(await skill.invoke('x'), 'ok');
+      assert.equal(calls, 2);
+    });
+
+    it('waits the backoff delay between attempts', async () => {
+      const started: number[] = [];
+      const skill = applyModifiers(
+        async () => {
+          started.push(Date.now());
+          throw new Error('down');
+        },
+        parsed({ retry: { attempts: 2, backoff: 'linear', delay: '20ms' } })
+      );
+      await assert.rejects(skill.invoke('x'));
+      assert.equal(started.length, 3);
+      // setTimeout may fire a millisecond early
+      assert.ok(started[1] - started[0] >= 19, `first wait was ${started[1] - started[0]}ms`);
+      assert.ok(started[2] - started[1] >= 39, `second wait was ${started[2] - started[1]}ms`);
+    });
+  });
+
+  describe('backoffDelay', () => {
+    it('computes fixed, linear and exponential delays', () => {
+      assert.deepEqual([1, 2, 3].map((retry) => backoffDelay('fixed', 100, retry)), [100, 100, 100]);
+      assert.deepEqual([1, 2, 3].map((retry) => backoffDelay('linear', 100, retry)), [100, 200, 300]);
+      assert.deepEqual([1, 2, 3].map((retry) => backoffDelay('exponential', 100, retry)), [100, 200, 400]);
+    });
+  });
+
+  describe('timeout', () => {
+    it('aborts the signal and rejects with SkillTimeoutError', async () => {
+      let signal: AbortSignal | undefined;
+      const skill = applyModifiers((input, context) => {
+        signal = context.signal;
+        return hang(input, context);
+      }, parsed('timeout:20ms'));
+      await assert.rejects(skill.invoke('x'), SkillTimeoutError);
+      assert.equal(signal?.aborted, true);
+      assert.ok(signal?.reason instanceof SkillTimeoutError);
+    });
+
+    it('rejects even if the skill ignores its signal', async () => {
+      const skill = applyModifiers(() => delay(200), parsed('timeout:20ms'));
+      await assert.rejects(skill.invoke('x'), SkillTimeoutError);
+    });
+
+    it('times out each attempt, whichever of timeout and retry is listed first', async () => {
+      for (const modifiers of [
+        parsed({ retry: { attempts: 2, delay: '1ms' } }, 'timeout:20ms'),
+        parsed('timeout:20ms', { retry: { attempts: 2, delay: '1ms' } }),
+      ]) {
+        const attempts: number[] = [];
+        const skill = applyModifiers((input, context) => {
+          attempts.push(context.attempt);
+          return context.attempt < 3 ? hang(input, context) : Promise.resolve('ok');
+        }, modifiers);
+        assert.equal(await skill.invoke('x'), 'ok');
+        assert.deepEqual(attempts, [1, 2, 3]);
+      }
+    });
+  });
+
+  describe('rate-limit', () => {
+    it('makes calls beyond the bucket wait for a refill', async () => {
+      const started: number[] = [];
+      const skill = applyModifiers(async () => {
+        started.push(Date.now());
+      }, parsed('rate-limit:4/s'));
+      await Promise.all([1, 2, 3, 4, 5].map((input) => skill.invoke(input)));
+      const waited = started.map((time) => time - started[0]);
+      assert.ok(waited.slice(0, 4).every((ms) => ms < 100), `first four started after ${waited}`);
+      // One token refills every 250ms
+      assert.ok(waited[4] >= 200, `fifth started after ${waited[4]}ms`);
+    });
+  });
+
+  describe('parallel', () => {
+    it('bounds concurrent calls and keeps outputs in input order', async () => {
+      let active = 0;
+      let peak = 0;
+      const skill = applyModifiers(async (input: number) => {
+        active++;
+        peak = Math.max(peak, active);
+        await delay(10);
+        active--;
+        return input * 2;
+      }, parsed('parallel:2'));
+      assert.deepEqual(await skill.invokeAll([1, 2, 3, 4, 5]), [2, 4, 6, 8, 10]);
+      assert.equal(peak, 2);
+    });
+  });
+
+  describe('cache', () => {
+    it('returns cached results until the TTL expires', async () => {
+      let now = 1_000_000;
+      const clock = mock.method(Date, 'now', () => now);
+      try {
+        let calls = 0;
+        const skill = applyModifiers(async (input: string) => `${input}:${++calls}`, parsed('cache:1m'));
+        assert.equal(await skill.invoke('a'), 'a:1');
+        assert.equal(await skill.invoke('a'), 'a:1');
+        assert.equal(await skill.invoke('b'), 'b:2');
+        now += 59_000;
+        assert.equal(await skill.invoke('a'), 'a:1');
+        now += 1_000;
+        assert.equal(await skill.invoke('a'), 'a:3');
+      } finally {
+        clock.mock.restore();
+      }
+    });
+
+    it('does not cache failures', async () => {
+      let calls = 0;
+      const skill = applyModifiers(async () => {
+        if (++calls === 1) {
+          throw new Error('down');
+        }
+        return 'ok';
+      }, parsed('cache:5m'));
+      await assert.rejects(skill.invoke('a'), { message: 'down' });
+      assert.equal(await skill.invoke('a'), 'ok');
+    });
+  });
+
+  describe('fallback', () => {
+    it('runs the target skill after a failure', async () => {
+      const skill = applyModifiers(
+        async () => {
+          throw new Error('down');
+        },
+        parsed('fallback:backup'),
+        { skills: { backup: async (input) => `backup of ${input}` } }
+      );
+      assert.equal(await skill.invoke('x'), 'backup of x');
+    });
+
+    it('returns a copy of the fallback value after a failure', async () => {
+      const skill = applyModifiers(
+        async () => {
+          throw new Error('down');
+        },
+        parsed({ fallback: { value: { rows: [] } } })
+      );
+      const first = (await skill.invoke('x')) as { rows: unknown[] };
+      first.rows.push('changed');
+      assert.deepEqual(await skill.invoke('x'), { rows: [] });
+    });
+
+    it('throws at wrap time when the target has no invocation', () => {
+      assert.throws(
+        () => applyModifiers(async () => 'ok', parsed('fallback:backup')),
+        /No invocation for fallback 'backup'/
+      );
+    });
+  });
+
+  describe('middleware order', () => {
+    it('wraps the first modifier innermost', async () => {
+      const calls: string[] = [];
+      const trace: MiddlewareFactory = (modifier) => (next) => async (input, context) => {
+        calls.push(`enter ${modifier.config.label}`);
+        const output = await next(input, context);
+        calls.push(`leave ${modifier.config.label}`);
+        return output;
+      };
+      const modifiers = ['inner', 'outer'].map((label) => ({
+        type: 'trace',
+        config: { label },
+        raw: `trace:${label}`,
+      }));
+      const skill = applyModifiers(
+        async () => {
+          calls.push('skill');
+        },
+        modifiers,
+        { middleware: { trace } }
+      );
+      await skill.invoke('x');
+      assert.deepEqual(calls, ['enter outer', 'enter inner', 'skill', 'leave inner', 'leave outer']);
+    });
+
+    it('throws for a modifier without middleware', () => {
+      assert.throws(
+        () => applyModifiers(async () => 'ok', [{ type: 'trace', config: {}, raw: 'trace' }]),
+        /No runtime middleware for modifier 'trace'/
+      );
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compileWithLLM } from '../src/compiler/llmCompiler.js';
+import {
+  SECRET_PATTERNS,
+  findSecrets,
+  redactJson,
+  redactSecrets,
+  validateSecrets,
+} from '../src/compiler/secrets.js';
+import type { ComboSkillDefinition, Modifier, SecretRef } from '../src/types.js';
+
+// Credentials are assembled from parts so the fixtures don't trip secret
+// scanners; none of them are real.
+const SECRETS: Array<{ id: string; text: string; redacted: string; secret: string }> = [
+  {
+    id: 'private-key',
+    secret: `-----BEGIN RSA ${'PRIVATE KEY'}-----\nMIIEow${'A'.repeat(40)}\n-----END RSA ${'PRIVATE KEY'}-----`,
+    text: 'key:\n<secret>\n',
+    redacted: 'key:\n[REDACTED:private-key]\n',
+  },
+  {
+    id: 'aws-access-key',
+    secret: `AKIA${'ABCDEFGHIJKLMNOP'}`,
+    text: 'aws <secret> here',
+    redacted: 'aws [REDACTED:aws-access-key] here',
+  },
+  {
+    id: 'github-token',
+    secret: `ghp_${'a1'.repeat(18)}`,
+    text: 'clone with <secret>',
+    redacted: 'clone with [REDACTED:github-token]',
+  },
+  {
+    id: 'gitlab-token',
+    secret: `glpat-${'x9'.repeat(10)}`,
+    text: 'gitlab <secret>',
+    redacted: 'gitlab [REDACTED:gitlab-token]',
+  },
+  {
+    id: 'slack-token',
+    secret: `xoxb-${'1234567890'}-abcdef`,
+    text: 'slack <secret>',
+    redacted: 'slack [REDACTED:slack-token]',
+  },
+  {
+    id: 'stripe-key',
+    secret: `sk_live_${'b2'.repeat(12)}`,
+    text: 'stripe <secret>',
+    redacted: 'stripe [REDACTED:stripe-key]',
+  },
+  {
+    id: 'api-key',
+    secret: `sk-ant-${'c3'.repeat(12)}`,
+    text: 'model key <secret>',
+    redacted: 'model key [REDACTED:api-key]',
+  },
+  {
+    id: 'google-api-key',
+    secret: `AIza${'d'.repeat(35)}`,
+    text: 'maps <secret>',
+    redacted: 'maps [REDACTED:google-api-key]',
+  },
+  {
+    id: 'jwt',
+    secret: `eyJ${'hbGciOiJIUzI1NiJ9'}.eyJ${'zdWIiOiIxMjM0NTY3ODkwIn0'}.${'e4'.repeat(10)}`,
+    text: 'session <secret>',
+    redacted: 'session [REDACTED:jwt]',
+  },
+  {
+    id: 'authorization-header',
+    secret: 'f5'.repeat(10),
+    text: 'Authorization: Bearer <secret>',
+    redacted: 'Authorization: Bearer [REDACTED:authorization-header]',
+  },
+  {
+    id: 'url-credentials',
+    secret: 'hunter2hunter2',
+    text: 'https://admin:<secret>@db.example.com/app',
+    redacted: 'https://admin:[REDACTED:url-credentials]@db.example.com/app',
+  },
+  {
+    id: 'credential-assignment',
+    secret: 'correct-horse-42',
+    text: 'password: <secret>',
+    redacted: 'password: [REDACTED:credential-assignment]',
+  },
+];
+
+const NOT_SECRETS = [
+  'env:GITHUB_TOKEN',
+  'file:/run/secrets/api_key',
+  'keychain:github/ci-token',
+  'token: env:GITHUB_TOKEN',
+  'api_key = file:/run/secrets/api_key',
+  'password: keychain:db/admin-2024',
+  'api_key: ${params.api_key}',
+  'password=${params.db_password1}',
+  'Uses Bearer authentication against the API',
+  'Basic authentication is not supported',
+  'The token is refreshed every 3600 seconds',
+  'secret: placeholder',
+  'https://example.com/packages@v2',
+  'Skill descriptions mention sk- prefixes and AKIA keys in prose',
+];
+
+function combo(overrides: Partial<ComboSkillDefinition> = {}): ComboSkillDefinition {
+  return {
+    name: 'secrets-test',
+    description: 'A combo for secret detection tests',
+    intent: 'Check secret detection and redaction',
+    skills: [{ name: 'fetch' }],
+    ...overrides,
+  };
+}
+
+// Sources are typed loosely here, since the tests cover invalid ones too
+function authSource(source: string): Modifier[] {
+  return [{ auth: { type: 'bearer', source: source as SecretRef } }];
+}
+
+describe('SECRET_PATTERNS', () => {
+  it('has a corpus entry for every pattern', () => {
+    assert.deepEqual(
+      SECRETS.map((s) => s.id),
+      SECRET_PATTERNS.map((p) => p.id)
+    );
+  });
+});
+
+describe('redactSecrets', () => {
+  for (const { id, secret, text, redacted } of SECRETS) {
+    it(`redacts ${id}`, () => {
+      const result = redactSecrets(text.replace('<secret>', secret));
+      assert.equal(result.text, redacted);
+      assert.deepEqual(result.redactions, [id]);
+      assert.deepEqual(
+        findSecrets(text.replace('<secret>', secret)).map((p) => p.id),
+        [id]
+      );
+    });
+  }
+
+  for (const text of NOT_SECRETS) {
+    it(`leaves '${text}' alone`, () => {
+      assert.deepEqual(redactSecrets(text), { text, redactions: [] });
+      assert.deepEqual(findSecrets(text), []);
+    });
+  }
+
+  it('redacts every occurrence', () => {
+    const token = SECRETS.find((s) => s.id === 'github-token')!.secret;
+    const result = redactSecrets(`${token} and ${token}`);
+    assert.equal(result.text, '[REDACTED:github-token] and [REDACTED:github-token]');
+    assert.deepEqual(result.redactions, ['github-token', 'github-token']);
+  });
+});
+
+describe('redactJson', () => {
+  it('redacts nested strings without modifying the input', () => {
+    const token = SECRETS.find((s) => s.id === 'gitlab-token')!.secret;
+    const value = { steps: [{ note: `use ${token}` }], count: 2, ref: 'env:GITLAB_TOKEN' };
+    const result = redactJson(value);
+    assert.deepEqual(result.value, {
+      steps: [{ note: 'use [REDACTED:gitlab-token]' }],
+      count: 2,
+      ref: 'env:GITLAB_TOKEN',
+    });
+    assert.deepEqual(result.redactions, ['gitlab-token']);
+    assert.equal(value.steps[0].note, `use ${token}`);
+  });
+});
+
+describe('validateSecrets', () => {
+  for (const { id, secret, text } of SECRETS) {
+    it(`reports a literal ${id} as SEC003 without repeating it`, () => {
+      const result = validateSecrets(combo({ description: text.replace('<secret>', secret) }));
+      assert.equal(result.valid, false);
+      assert.deepEqual(
+        result.errors.map((d) => [d.code, d.path]),
+        [['SEC003', ['description']]]
+      );
+      assert.ok(!result.errors[0].message.includes(secret));
+    });
+  }
+
+  for (const text of NOT_SECRETS) {
+    it(`accepts '${text}'`, () => {
+      const result = validateSecrets(combo({ description: text }));
+      assert.deepEqual(result, { valid: true, errors: [], warnings: [] });
+    });
+  }
+
+  it('accepts secret references and parameters as auth sources', () => {
+    for (const source of ['env:API_TOKEN', 'file:/run/secrets/token', 'keychain:ci/token', '${params.token}']) {
+      const result = validateSecrets(combo({ modifiers: authSource(source) }));
+      assert.deepEqual(result, { valid: true, errors: [], warnings: [] }, source);
+    }
+  });
+
+  it('reports an invalid auth source as SEC001', () => {
+    const result = validateSecrets(
+      combo({ skills: [{ name: 'fetch', modifiers: authSource('vault:api-token') }] })
+    );
+    assert.deepEqual(
+      result.errors.map((d) => [d.code, d.path]),
+      [['SEC001', ['skills', 0, 'modifiers', 0, 'auth', 'source']]]
+    );
+  });
+
+  it('suggests env: for a bare auth source (SEC002)', () => {
+    const result = validateSecrets(combo({ modifiers: authSource('API_TOKEN') }));
+    assert.equal(result.valid, true);
+    assert.deepEqual(
+      result.warnings.map((d) => [d.code, d.fix?.edits]),
+      [['SEC002', [{ op: 'replace', path: ['modifiers', 0, 'auth', 'source'], value: 'env:API_TOKEN' }]]]
+    );
+  });
+
+  it('reports a literal auth source once, as SEC003', () => {
+    const token = SECRETS.find((s) => s.id === 'github-token')!.secret;
+    const result = validateSecrets(combo({ modifiers: authSource(token) }));
+    assert.deepEqual(
+      result.errors.map((d) => d.code),
+      ['SEC003']
+    );
+  });
+});
+
+describe('compileWithLLM', () => {
+  it('returns the redactions instead of logging them', async () => {
+    const token = SECRETS.find((s) => s.id === 'github-token')!.secret;
+    const warn = mock.method(console, 'warn', () => {});
+    try {
+      const compiled = await compileWithLLM(
+        {
+          ...combo(),
+          resolvedSkills: [
+            {
+              name: 'fetch',
+              from: 'skills.sh',
+              version: 'latest',
+              description: `Fetches pages; example token ${token}`,
+              resolved: true,
+            },
+          ],
+        },
+        { validateModifiers: false }
+      );
+      assert.ok(compiled.redactions.length > 0);
+      assert.ok(compiled.redactions.every((id) => id === 'github-token'));
+      assert.ok(!compiled.skillMd.includes(token));
+      assert.equal(warn.mock.callCount(), 0);
+    } finally {
+      warn.mock.restore();
+    }
+  });
+});